@@ -0,0 +1,288 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import EncodingPicker from '@/components/EncodingPicker';
+import { EncodingGuess, decodeText, detectEncoding } from '@/lib/text-encoding';
+import { CSVDelimiter, CSV_DELIMITERS } from '@/lib/csv-dialect';
+import { CSVRecord, detectDelimiter, parseCSV } from '@/lib/csv-parser';
+import { CSVSource, IMPORT_TARGETS, ImportMapping, csvToVCards, detectCSVSource, suggestMapping } from '@/lib/csv-import';
+import { VCardVersion, downloadVCF, writeVCards } from '@/lib/vcard-writer';
+import { Upload, Download, FileText } from 'lucide-react';
+
+// Select values can't be empty, so columns that are left out use this value
+const LEAVE_OUT = 'none';
+
+const SOURCE_LABELS: { [source in CSVSource]: string } = {
+  'google': 'Google Contacts',
+  'outlook': 'Outlook',
+  'generic': 'VCF&CSV Converter',
+  'unknown': 'Unknown'
+};
+
+const VCARD_VERSIONS: { value: VCardVersion; label: string }[] = [
+  { value: '3.0', label: 'vCard 3.0 (widest support)' },
+  { value: '4.0', label: 'vCard 4.0' }
+];
+
+interface CSVTable {
+  headers: string[];
+  records: CSVRecord[];
+}
+
+function readTable(text: string, delimiter: CSVDelimiter): CSVTable {
+  const [header, ...records] = parseCSV(text, delimiter);
+  return { headers: header ? header.fields : [], records };
+}
+
+const CSVImporter = () => {
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileBytes, setFileBytes] = useState<Uint8Array | null>(null);
+  const [encodingGuess, setEncodingGuess] = useState<EncodingGuess | null>(null);
+  const [encoding, setEncoding] = useState('utf-8');
+  const [delimiter, setDelimiter] = useState<CSVDelimiter>(',');
+  const [table, setTable] = useState<CSVTable>({ headers: [], records: [] });
+  const [source, setSource] = useState<CSVSource>('unknown');
+  const [mapping, setMapping] = useState<ImportMapping>([]);
+  const [version, setVersion] = useState<VCardVersion>('3.0');
+  const [vcfContent, setVcfContent] = useState('');
+  const [cardCount, setCardCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // First non-empty value of each column, shown next to the mapping
+  const samples = useMemo(
+    () => table.headers.map((_, index) => table.records.map(record => record.fields[index]).find(Boolean) || ''),
+    [table]
+  );
+
+  // Reading the file again resets the mapping to the suggestions for its headers
+  const loadTable = (nextTable: CSVTable) => {
+    const detectedSource = detectCSVSource(nextTable.headers);
+    setTable(nextTable);
+    setSource(detectedSource);
+    setMapping(suggestMapping(nextTable.headers, detectedSource));
+    setVcfContent('');
+    setCardCount(0);
+  };
+
+  const loadText = (bytes: Uint8Array, textEncoding: string) => {
+    const text = decodeText(bytes, textEncoding);
+    const detectedDelimiter = detectDelimiter(text);
+    setDelimiter(detectedDelimiter);
+    loadTable(readTable(text, detectedDelimiter));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!/\.(csv|tsv|txt)$/i.test(file.name)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select a CSV file",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const guess = detectEncoding(bytes);
+    setSelectedFile(file);
+    setFileBytes(bytes);
+    setEncodingGuess(guess);
+    setEncoding(guess.encoding);
+    loadText(bytes, guess.encoding);
+    toast({
+      title: "File selected",
+      description: `${file.name} is ready for conversion`
+    });
+  };
+
+  const handleEncodingChange = (nextEncoding: string) => {
+    setEncoding(nextEncoding);
+    loadText(fileBytes, nextEncoding);
+  };
+
+  const handleDelimiterChange = (nextDelimiter: CSVDelimiter) => {
+    setDelimiter(nextDelimiter);
+    loadTable(readTable(decodeText(fileBytes, encoding), nextDelimiter));
+  };
+
+  // A changed mapping or version needs converting again
+  const handleMappingChange = (index: number, target: string) => {
+    setMapping(mapping.map((current, i) => (i === index ? target : current)));
+    setVcfContent('');
+    setCardCount(0);
+  };
+
+  const handleVersionChange = (nextVersion: VCardVersion) => {
+    setVersion(nextVersion);
+    setVcfContent('');
+    setCardCount(0);
+  };
+
+  const handleConvert = () => {
+    const cards = csvToVCards(table.headers, table.records, mapping);
+    if (cards.length === 0) {
+      toast({
+        title: "No contacts found",
+        description: "Map at least one column to a vCard property",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setVcfContent(writeVCards(cards, version));
+    setCardCount(cards.length);
+    toast({
+      title: "Conversion successful!",
+      description: `Converted ${cards.length} contacts to vCard ${version}`
+    });
+  };
+
+  const handleSave = () => {
+    downloadVCF(vcfContent, `${selectedFile?.name.replace(/\.(csv|tsv|txt)$/i, '')}_contacts.vcf`);
+    toast({
+      title: "File saved",
+      description: "VCF file has been downloaded"
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* File Selection */}
+      <Button
+        onClick={() => fileInputRef.current?.click()}
+        variant="converter"
+        size="xl"
+        className="w-full"
+      >
+        <Upload className="w-5 h-5" />
+        {selectedFile ? selectedFile.name : 'Select CSV file'}
+      </Button>
+
+      {/* Encoding */}
+      {fileBytes && encodingGuess && (
+        <EncodingPicker
+          id="csv-file-encoding"
+          sample={fileBytes}
+          guess={encodingGuess}
+          encoding={encoding}
+          onEncodingChange={handleEncodingChange}
+        />
+      )}
+
+      {/* Columns */}
+      {table.headers.length > 0 && (
+        <div className="p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-delimiter" className="text-converter-text">Delimiter</Label>
+              <Select
+                value={CSV_DELIMITERS.find(option => option.delimiter === delimiter)?.value}
+                onValueChange={(value) => handleDelimiterChange(CSV_DELIMITERS.find(option => option.value === value).delimiter)}
+              >
+                <SelectTrigger id="import-delimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DELIMITERS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vcard-version" className="text-converter-text">vCard version</Label>
+              <Select value={version} onValueChange={(value) => handleVersionChange(value as VCardVersion)}>
+                <SelectTrigger id="vcard-version">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VCARD_VERSIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-converter-text-muted text-sm">
+            {table.records.length} rows · Format: {SOURCE_LABELS[source]}
+          </p>
+
+          <ul className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {table.headers.map((header, index) => (
+              <li key={index} className="grid grid-cols-2 gap-2 items-center">
+                <div className="min-w-0">
+                  <p className="text-converter-text text-sm truncate">{header || `Column ${index + 1}`}</p>
+                  <p className="text-converter-text-muted text-xs truncate">{samples[index]}</p>
+                </div>
+                <Select
+                  value={mapping[index] || LEAVE_OUT}
+                  onValueChange={(value) => handleMappingChange(index, value === LEAVE_OUT ? '' : value)}
+                >
+                  <SelectTrigger aria-label={`vCard property for ${header}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LEAVE_OUT}>Leave out</SelectItem>
+                    {IMPORT_TARGETS.map(target => (
+                      <SelectItem key={target.id} value={target.id}>{target.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Convert Button */}
+      <Button
+        onClick={handleConvert}
+        variant="converter"
+        size="xl"
+        className="w-full"
+        disabled={table.records.length === 0}
+      >
+        <FileText className="w-5 h-5" />
+        Convert to VCF
+      </Button>
+
+      {/* Save Button */}
+      <Button
+        onClick={handleSave}
+        variant="converter"
+        size="xl"
+        className="w-full"
+        disabled={!vcfContent}
+      >
+        <Download className="w-5 h-5" />
+        Save VCF
+      </Button>
+
+      {/* Status */}
+      {cardCount > 0 && (
+        <div className="p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20">
+          <p className="text-converter-text text-center">
+            ✅ Successfully converted {cardCount} contacts
+          </p>
+        </div>
+      )}
+
+      {/* Hidden file input */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default CSVImporter;
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ColumnLayout,
+  ColumnMapping,
+  MappingTemplate,
+  createDefaultLayout,
+  deleteTemplate,
+  fitLayout,
+  loadTemplates,
+  saveTemplate
+} from '@/lib/column-mapping';
+import { GripVertical, Plus, Save, Split, Trash2, X } from 'lucide-react';
+
+interface ColumnMappingEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Fields found in the converted contacts, in default column order
+  fields: string[];
+  layout: ColumnLayout;
+  onLayoutChange: (layout: ColumnLayout) => void;
+}
+
+const ColumnMappingEditor = ({ open, onOpenChange, fields, layout, onLayoutChange }: ColumnMappingEditorProps) => {
+  const [draft, setDraft] = useState<ColumnLayout>(layout);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const { toast } = useToast();
+
+  // Every time the dialog opens it starts from the layout in use
+  useEffect(() => {
+    if (!open) return;
+    setDraft(layout);
+    setSelected([]);
+    setTemplates(loadTemplates());
+  }, [open, layout]);
+
+  const headerCounts: { [header: string]: number } = {};
+  draft.columns.forEach(column => {
+    headerCounts[column.header] = (headerCounts[column.header] || 0) + 1;
+  });
+  const hasInvalidHeaders = draft.columns.some(column => !column.header.trim() || headerCounts[column.header] > 1);
+
+  const updateColumn = (index: number, changes: Partial<ColumnMapping>) => {
+    setDraft({
+      ...draft,
+      columns: draft.columns.map((column, i) => (i === index ? { ...column, ...changes } : column))
+    });
+  };
+
+  const moveColumn = (from: number, to: number) => {
+    const columns = [...draft.columns];
+    const [column] = columns.splice(from, 1);
+    columns.splice(to, 0, column);
+    setDraft({ ...draft, columns });
+    setSelected([]);
+  };
+
+  const excludeColumn = (index: number) => {
+    setDraft({
+      columns: draft.columns.filter((_, i) => i !== index),
+      excluded: [...draft.excluded, ...draft.columns[index].sources]
+    });
+    setSelected([]);
+  };
+
+  const restoreField = (field: string) => {
+    setDraft({
+      columns: [...draft.columns, ...createDefaultLayout([field]).columns],
+      excluded: draft.excluded.filter(excluded => excluded !== field)
+    });
+  };
+
+  // The merged column takes the place and header of the first selected column
+  const mergeSelected = () => {
+    const indexes = [...selected].sort((a, b) => a - b);
+    const first = draft.columns[indexes[0]];
+    const merged = { ...first, sources: indexes.flatMap(index => draft.columns[index].sources) };
+    setDraft({
+      ...draft,
+      columns: draft.columns
+        .map((column, index) => (index === indexes[0] ? merged : column))
+        .filter((_, index) => !indexes.slice(1).includes(index))
+    });
+    setSelected([]);
+  };
+
+  const splitColumn = (index: number) => {
+    const columns = [...draft.columns];
+    columns.splice(index, 1, ...createDefaultLayout(draft.columns[index].sources).columns);
+    setDraft({ ...draft, columns });
+    setSelected([]);
+  };
+
+  const showStorageError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "The templates could not be stored",
+      variant: "destructive"
+    });
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    try {
+      setTemplates(saveTemplate({ name, ...draft }));
+      setTemplateName('');
+    } catch (error) {
+      showStorageError("Template not saved", error);
+    }
+  };
+
+  const handleDeleteTemplate = () => {
+    try {
+      setTemplates(deleteTemplate(templateName.trim()));
+    } catch (error) {
+      showStorageError("Template not deleted", error);
+    }
+  };
+
+  const handleApplyTemplate = (name: string) => {
+    const template = templates.find(candidate => candidate.name === name);
+    if (template) setDraft(fitLayout(template, fields));
+    setTemplateName(name);
+    setSelected([]);
+  };
+
+  const handleDone = () => {
+    onLayoutChange(draft);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Columns</DialogTitle>
+          <DialogDescription>
+            Drag to reorder, rename headers, merge several fields into one cell or leave fields out.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Templates */}
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1 flex-1 min-w-40">
+            <Label htmlFor="mapping-template">Template</Label>
+            <Select value="" onValueChange={handleApplyTemplate} disabled={templates.length === 0}>
+              <SelectTrigger id="mapping-template">
+                <SelectValue placeholder={templates.length > 0 ? 'Apply a saved template' : 'No saved templates'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.name} value={template.name}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            value={templateName}
+            onChange={(event) => setTemplateName(event.target.value)}
+            placeholder="Template name"
+            className="flex-1 min-w-40"
+          />
+          <Button variant="outline" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+            <Save className="w-4 h-4" />
+            Save
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleDeleteTemplate}
+            disabled={!templates.some(template => template.name === templateName.trim())}
+            aria-label="Delete template"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Columns */}
+        <ul className="max-h-80 overflow-y-auto space-y-2 pr-1">
+          {draft.columns.map((column, index) => (
+            <li
+              key={`${column.sources.join('|')}-${index}`}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null && dragIndex !== index) moveColumn(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-2 rounded-md border p-2 ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <GripVertical className="w-4 h-4 shrink-0 cursor-grab text-muted-foreground" />
+              <Checkbox
+                checked={selected.includes(index)}
+                onCheckedChange={(checked) => setSelected(checked === true
+                  ? [...selected, index]
+                  : selected.filter(i => i !== index))}
+                aria-label={`Select ${column.header}`}
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <Input
+                  value={column.header}
+                  onChange={(event) => updateColumn(index, { header: event.target.value })}
+                  className={!column.header.trim() || headerCounts[column.header] > 1 ? 'border-destructive' : ''}
+                />
+                {(column.sources.length > 1 || column.sources[0] !== column.header) && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    From {column.sources.join(' + ')}
+                  </p>
+                )}
+              </div>
+              {column.sources.length > 1 && (
+                <>
+                  <Input
+                    value={column.separator}
+                    onChange={(event) => updateColumn(index, { separator: event.target.value })}
+                    className="w-16"
+                    aria-label="Separator"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => splitColumn(index)} aria-label="Split column">
+                    <Split className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+              <Button variant="ghost" size="icon" onClick={() => excludeColumn(index)} aria-label="Leave out">
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {hasInvalidHeaders && (
+          <p className="text-sm text-destructive">Every column needs a header, and headers must be unique.</p>
+        )}
+
+        {/* Excluded fields */}
+        {draft.excluded.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Left out</p>
+            <div className="flex flex-wrap gap-2">
+              {draft.excluded.map(field => (
+                <Button key={field} variant="outline" size="sm" onClick={() => restoreField(field)}>
+                  <Plus className="w-3 h-3" />
+                  {field}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setDraft(createDefaultLayout(fields))}>
+            Reset
+          </Button>
+          <Button variant="outline" onClick={mergeSelected} disabled={selected.length < 2}>
+            Merge selected ({selected.length})
+          </Button>
+          <Button onClick={handleDone} disabled={hasInvalidHeaders}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ColumnMappingEditor;
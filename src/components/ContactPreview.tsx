@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Contact } from '@/lib/vcf-converter';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Search, Trash2 } from 'lucide-react';
+
+// Rows are rendered only around the visible part of the page, so every row has a fixed height
+const ROW_HEIGHT = 41;
+const HEADER_HEIGHT = 49;
+// Matches the h-96 of the scroll area
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 10;
+const PAGE_SIZE = 1000;
+
+interface SortState {
+  column: string;
+  descending: boolean;
+}
+
+interface EditingCell {
+  // Index of the contact in the contacts array
+  row: number;
+  column: string;
+  value: string;
+}
+
+interface ContactPreviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contacts: Contact[];
+  columns: string[];
+  // Called with an update of the latest contacts, as a blur can commit an edit just before
+  onContactsChange: (update: (contacts: Contact[]) => Contact[]) => void;
+}
+
+const ContactPreview = ({ open, onOpenChange, contacts, columns, onContactsChange }: ContactPreviewProps) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [page, setPage] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+
+  // Indexes of the contacts matching the search, in display order
+  const rows = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    const matches = contacts
+      .map((_, index) => index)
+      .filter(index => !search || columns.some(column => (contacts[index][column] || '').toLowerCase().includes(search)));
+
+    if (sort) {
+      matches.sort((a, b) => {
+        const order = (contacts[a][sort.column] || '').localeCompare(contacts[b][sort.column] || '', undefined, {
+          numeric: true,
+          sensitivity: 'base'
+        });
+        return sort.descending ? -order : order;
+      });
+    }
+    return matches;
+  }, [contacts, columns, query, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const firstVisible = Math.max(0, Math.floor((scrollTop - HEADER_HEIGHT) / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = pageRows.slice(firstVisible, lastVisible);
+
+  // Searching, sorting and paging start again from the top
+  useEffect(() => {
+    setPage(0);
+  }, [query, sort]);
+
+  useEffect(() => {
+    if (!open) setEditing(null);
+  }, [open]);
+
+  const handleSort = (column: string) => {
+    // Ascending, then descending, then back to file order
+    if (sort?.column !== column) setSort({ column, descending: false });
+    else if (!sort.descending) setSort({ column, descending: true });
+    else setSort(null);
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const { row, column, value } = editing;
+    setEditing(null);
+    if ((contacts[row][column] || '') === value) return;
+    onContactsChange(current => current.map((contact, index) => (index === row ? { ...contact, [column]: value } : contact)));
+  };
+
+  const deleteRow = (row: number) => {
+    setEditing(null);
+    onContactsChange(current => current.filter((_, index) => index !== row));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-5xl"
+        onEscapeKeyDown={(event) => {
+          // Escape drops the edit in progress instead of closing the dialog
+          if (!editing) return;
+          event.preventDefault();
+          setEditing(null);
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Contacts</DialogTitle>
+          <DialogDescription>
+            Click a cell to fix it. Changes and deleted rows are used when the CSV is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search contacts"
+            className="pl-9"
+          />
+        </div>
+
+        <ScrollArea
+          className="h-96 rounded-md border"
+          onScrollCapture={(event) => setScrollTop((event.target as HTMLElement).scrollTop)}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12" />
+                {columns.map(column => (
+                  <TableHead key={column} className="whitespace-nowrap">
+                    <button type="button" onClick={() => handleSort(column)} className="inline-flex items-center gap-1">
+                      {column}
+                      {sort?.column === column && (sort.descending
+                        ? <ArrowDown className="w-3 h-3" />
+                        : <ArrowUp className="w-3 h-3" />)}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+              {visibleRows.map(row => (
+                <TableRow key={row} style={{ height: ROW_HEIGHT }}>
+                  <TableCell className="py-0 px-2">
+                    <Button variant="ghost" size="icon" onClick={() => deleteRow(row)} aria-label="Delete contact">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                  {columns.map(column => (
+                    <TableCell
+                      key={column}
+                      onClick={() => {
+                        if (editing?.row !== row || editing.column !== column) {
+                          setEditing({ row, column, value: contacts[row][column] || '' });
+                        }
+                      }}
+                      className="py-0 px-4 max-w-64 truncate whitespace-nowrap cursor-text"
+                      title={contacts[row][column]}
+                    >
+                      {editing?.row === row && editing.column === column ? (
+                        <Input
+                          autoFocus
+                          value={editing.value}
+                          onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={(event) => {
+                            if (event.key === 'Enter') commitEdit();
+                          }}
+                          className="h-8 min-w-40"
+                        />
+                      ) : (
+                        contacts[row][column]
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              {lastVisible < pageRows.length && <tr style={{ height: (pageRows.length - lastVisible) * ROW_HEIGHT }} />}
+            </TableBody>
+          </Table>
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {rows.length === contacts.length
+              ? `${contacts.length} contacts`
+              : `${rows.length} of ${contacts.length} contacts`}
+          </span>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span>Page {currentPage + 1} of {pageCount}</span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage === pageCount - 1}
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactPreview;
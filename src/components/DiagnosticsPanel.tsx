@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ParseDiagnostic } from '@/lib/vcard-parser';
+import { AlertTriangle, ChevronDown, XCircle } from 'lucide-react';
+
+interface DiagnosticsPanelProps {
+  diagnostics: ParseDiagnostic[];
+}
+
+const DiagnosticsPanel = ({ diagnostics }: DiagnosticsPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const summary = [
+    errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`,
+    warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="mt-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20"
+    >
+      <CollapsibleTrigger className="w-full flex items-center justify-between p-4 text-converter-text">
+        <span className="flex items-center gap-2">
+          {errorCount > 0 ? <XCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          {summary}
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="max-h-64 overflow-y-auto px-4 pb-4 space-y-2 text-sm">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index} className="text-converter-text">
+              <span className={diagnostic.severity === 'error' ? 'text-destructive font-medium' : 'font-medium'}>
+                Line {diagnostic.line}
+              </span>
+              {diagnostic.contact && (
+                <span className="text-converter-text-muted"> · {diagnostic.contact}</span>
+              )}
+              <p className="text-converter-text-muted">{diagnostic.message}</p>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default DiagnosticsPanel;
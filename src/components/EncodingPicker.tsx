@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EncodingGuess, SUPPORTED_ENCODINGS, decodeText, getEncodingLabel } from '@/lib/text-encoding';
+
+// Number of bytes shown in the preview
+const PREVIEW_SIZE = 2048;
+
+const SOURCE_DESCRIPTIONS: { [source: string]: string } = {
+  'bom': 'byte order mark',
+  'utf-8': 'valid UTF-8',
+  'charset-parameter': 'CHARSET in the file',
+  'heuristic': 'best guess'
+};
+
+interface EncodingPickerProps {
+  // Start of the selected file
+  sample: Uint8Array;
+  guess: EncodingGuess;
+  encoding: string;
+  onEncodingChange: (encoding: string) => void;
+  disabled?: boolean;
+  // Needed when more than one picker is mounted
+  id?: string;
+}
+
+const EncodingPicker = ({ sample, guess, encoding, onEncodingChange, disabled, id = 'file-encoding' }: EncodingPickerProps) => {
+  const preview = useMemo(
+    () => decodeText(sample.subarray(0, PREVIEW_SIZE), encoding),
+    [sample, encoding]
+  );
+
+  // Encodings named by a CHARSET parameter may not be in the list
+  const options = SUPPORTED_ENCODINGS.some(option => option.value === guess.encoding)
+    ? SUPPORTED_ENCODINGS
+    : [...SUPPORTED_ENCODINGS, { value: guess.encoding, label: guess.encoding }];
+
+  return (
+    <div className="p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20 space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={id} className="text-converter-text">
+          Text encoding
+        </Label>
+        <Select value={encoding} onValueChange={onEncodingChange} disabled={disabled}>
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-converter-text-muted text-xs">
+          Detected {getEncodingLabel(guess.encoding)} ({SOURCE_DESCRIPTIONS[guess.source]}).
+          Pick another encoding if the preview looks garbled.
+        </p>
+      </div>
+      <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-md bg-white/50 p-2 text-xs text-converter-text">
+        {preview}
+      </pre>
+    </div>
+  );
+};
+
+export default EncodingPicker;
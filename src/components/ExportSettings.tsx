@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CSVDialect,
+  CSVEncoding,
+  CSVLineEnding,
+  CSVQuoting,
+  CSV_DELIMITERS,
+  CSV_PRESETS,
+  findPreset
+} from '@/lib/csv-dialect';
+import { ChevronDown, Settings } from 'lucide-react';
+
+// Select values can't be control characters, so options are keyed by name
+const LINE_ENDINGS: { value: string; label: string; lineEnding: CSVLineEnding }[] = [
+  { value: 'crlf', label: 'Windows (CRLF)', lineEnding: '\r\n' },
+  { value: 'lf', label: 'Unix / macOS (LF)', lineEnding: '\n' }
+];
+
+const QUOTING: { value: CSVQuoting; label: string }[] = [
+  { value: 'always', label: 'Quote every field' },
+  { value: 'needed', label: 'Quote only when needed' }
+];
+
+const ENCODINGS: { value: CSVEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' }
+];
+
+interface ExportSettingsProps {
+  dialect: CSVDialect;
+  onDialectChange: (dialect: CSVDialect) => void;
+  disabled?: boolean;
+}
+
+const ExportSettings = ({ dialect, onDialectChange, disabled }: ExportSettingsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const preset = findPreset(dialect);
+
+  const update = (changes: Partial<CSVDialect>) => onDialectChange({ ...dialect, ...changes });
+
+  return (
+    <Collapsible
+      open={isOpen}
+      onOpenChange={setIsOpen}
+      className="bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20"
+    >
+      <CollapsibleTrigger className="w-full flex items-center justify-between p-4 text-converter-text">
+        <span className="flex items-center gap-2">
+          <Settings className="w-4 h-4" />
+          CSV format: {preset ? preset.label : 'Custom'}
+        </span>
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="px-4 pb-4 space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="csv-preset" className="text-converter-text">Preset</Label>
+            <Select
+              value={preset ? preset.id : 'custom'}
+              onValueChange={(id) => {
+                const selected = CSV_PRESETS.find(option => option.id === id);
+                if (selected) onDialectChange(selected.dialect);
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger id="csv-preset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CSV_PRESETS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+                {!preset && <SelectItem value="custom">Custom</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="csv-delimiter" className="text-converter-text">Delimiter</Label>
+              <Select
+                value={CSV_DELIMITERS.find(option => option.delimiter === dialect.delimiter)?.value}
+                onValueChange={(value) => update({ delimiter: CSV_DELIMITERS.find(option => option.value === value).delimiter })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="csv-delimiter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DELIMITERS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csv-line-ending" className="text-converter-text">Line endings</Label>
+              <Select
+                value={LINE_ENDINGS.find(option => option.lineEnding === dialect.lineEnding)?.value}
+                onValueChange={(value) => update({ lineEnding: LINE_ENDINGS.find(option => option.value === value).lineEnding })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="csv-line-ending">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINE_ENDINGS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csv-quoting" className="text-converter-text">Quoting</Label>
+              <Select
+                value={dialect.quoting}
+                onValueChange={(value) => update({ quoting: value as CSVQuoting })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="csv-quoting">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUOTING.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csv-encoding" className="text-converter-text">Encoding</Label>
+              <Select
+                value={dialect.encoding}
+                onValueChange={(value) => update({ encoding: value as CSVEncoding })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="csv-encoding">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENCODINGS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="csv-bom"
+              checked={dialect.bom}
+              onCheckedChange={(checked) => update({ bom: checked === true })}
+              disabled={disabled}
+            />
+            <Label htmlFor="csv-bom" className="text-converter-text">
+              Start with a byte order mark (needed by Excel)
+            </Label>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ExportSettings;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ConversionProgress } from '@/lib/conversion-job';
+import { X } from 'lucide-react';
+
+interface ProgressPanelProps {
+  progress: ConversionProgress | null;
+  onCancel: () => void;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeProgress(progress: ConversionProgress | null): string {
+  if (!progress) return 'Starting...';
+  if (progress.phase === 'reading') {
+    return `Reading file: ${formatMegabytes(progress.completed)} of ${formatMegabytes(progress.total)}`;
+  }
+  if (progress.phase === 'parsing') {
+    return `Parsing: ${progress.cards.toLocaleString()} contacts`;
+  }
+  return `Writing CSV: ${progress.cards.toLocaleString()} contacts`;
+}
+
+const ProgressPanel = ({ progress, onCancel }: ProgressPanelProps) => {
+  // Phases without a measurable total show a full bar while they run
+  const percent = !progress ? 0 : progress.total > 0 ? (progress.completed / progress.total) * 100 : 100;
+
+  return (
+    <div className="p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-converter-text text-sm">{describeProgress(progress)}</p>
+        <Button onClick={onCancel} variant="outline" size="sm">
+          <X className="w-4 h-4" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={percent} className="h-2" />
+    </div>
+  );
+};
+
+export default ProgressPanel;
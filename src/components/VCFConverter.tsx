@@ -1,28 +1,142 @@
-import React, { useState, useRef } from 'react';
+import React, { useMemo, useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { parseVCF, convertToCSV, downloadCSV, Contact } from '@/lib/vcf-converter';
-import { Upload, Download, FileText, Mail, Linkedin, Instagram, Github, Smartphone, Globe } from 'lucide-react';
+import DiagnosticsPanel from '@/components/DiagnosticsPanel';
+import EncodingPicker from '@/components/EncodingPicker';
+import ProgressPanel from '@/components/ProgressPanel';
+import ExportSettings from '@/components/ExportSettings';
+import ColumnMappingEditor from '@/components/ColumnMappingEditor';
+import ContactPreview from '@/components/ContactPreview';
+import CSVImporter from '@/components/CSVImporter';
+import {
+  convertGroupsToCSV,
+  convertToCSV,
+  convertToJSON,
+  convertToNDJSON,
+  getColumns,
+  getReferencedMedia,
+  createExportBundle,
+  createMediaBundle,
+  downloadCSV,
+  Contact,
+  ContactGroup,
+  ConversionOptions,
+  OutputProfile,
+  MediaFile
+} from '@/lib/vcf-converter';
+import { downloadBlob } from '@/lib/download';
+import { ParseDiagnostic } from '@/lib/vcard-parser';
+import { EncodingGuess, decodeText, detectEncoding } from '@/lib/text-encoding';
+import { ConversionJob, ConversionProgress, startConversion } from '@/lib/conversion-job';
+import { CSVDialect, CSV_PRESETS, DEFAULT_CSV_DIALECT, isSameDialect } from '@/lib/csv-dialect';
+import { ColumnLayout, createDefaultLayout } from '@/lib/column-mapping';
+import { convertToXLSX } from '@/lib/xlsx-writer';
+import { convertToODS } from '@/lib/ods-writer';
+import { downloadJCard, writeJCards } from '@/lib/jcard';
+import { downloadXCard, parseXCards, writeXCards } from '@/lib/xcard';
+import { VCard } from '@/lib/vcard-model';
+import { Upload, Download, FileText, Mail, Linkedin, Instagram, Github, Smartphone, Globe, Users, Columns3, Table2 } from 'lucide-react';
+
+const OUTPUT_PROFILES: { value: OutputProfile; label: string }[] = [
+  { value: 'generic', label: 'All fields' },
+  { value: 'google', label: 'Google Contacts' },
+  { value: 'outlook', label: 'Outlook' }
+];
+
+// Direction of the conversion
+type ConverterMode = 'vcf-to-csv' | 'csv-to-vcf';
+
+type ExportFormat = 'csv' | 'xlsx' | 'ods' | 'json' | 'ndjson' | 'jcard' | 'xcard';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'ods', label: 'OpenDocument (ODS)' },
+  { value: 'json', label: 'JSON' },
+  { value: 'ndjson', label: 'NDJSON' },
+  { value: 'jcard', label: 'jCard (JSON)' },
+  { value: 'xcard', label: 'xCard (XML)' }
+];
+
+// Formats that can add a sheet listing the groups
+const SPREADSHEET_FORMATS: ExportFormat[] = ['xlsx', 'ods'];
+
+// Formats written from the parsed cards, which keep media inline
+const CARD_FORMATS: ExportFormat[] = ['jcard', 'xcard'];
+
+// VCF files, or jCard and xCard files holding the same cards as JSON or XML
+const INPUT_FILE_EXTENSION = /\.(vcf|json|xml)$/i;
 
 const VCFConverter = () => {
+  const [mode, setMode] = useState<ConverterMode>('vcf-to-csv');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileSample, setFileSample] = useState<Uint8Array | null>(null);
+  const [encodingGuess, setEncodingGuess] = useState<EncodingGuess | null>(null);
+  const [encoding, setEncoding] = useState('utf-8');
+  // Parsed cards, kept for exports that write every property
+  const [cards, setCards] = useState<VCard[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [media, setMedia] = useState<MediaFile[]>([]);
   const [csvContent, setCsvContent] = useState<string>('');
+  const [largeFile, setLargeFile] = useState<{ csv: Blob; contactCount: number } | null>(null);
+  const [dialect, setDialect] = useState<CSVDialect>(DEFAULT_CSV_DIALECT);
+  // Dialect the converted CSV was written in
+  const [csvDialect, setCsvDialect] = useState<CSVDialect>(DEFAULT_CSV_DIALECT);
+  // Profile the converted contacts were projected with
+  const [csvProfile, setCsvProfile] = useState<OutputProfile>('generic');
+  // Columns chosen in the mapping editor; null keeps the profile's columns
+  const [columnLayout, setColumnLayout] = useState<ColumnLayout | null>(null);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  // Whether cells were edited or rows deleted in the preview since converting
+  const [contactsEdited, setContactsEdited] = useState(false);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [includeGroupsSheet, setIncludeGroupsSheet] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [conversionProgress, setConversionProgress] = useState<ConversionProgress | null>(null);
+  const [options, setOptions] = useState<ConversionOptions>({
+    profile: 'generic',
+    includeFormattedAddress: false,
+    includeAddressLabel: false
+  });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const conversionJobRef = useRef<ConversionJob | null>(null);
   const { toast } = useToast();
 
+  // Large files are converted without keeping their contacts in memory
+  const contactCount = largeFile ? largeFile.contactCount : contacts.length;
+  const columns = useMemo(() => getColumns(contacts, csvProfile), [contacts, csvProfile]);
+  const layout = useMemo(() => columnLayout || createDefaultLayout(columns), [columnLayout, columns]);
+
   const handleFileSelect = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.name.toLowerCase().endsWith('.vcf')) {
+      if (INPUT_FILE_EXTENSION.test(file.name)) {
+        // The encoding is guessed from the start of the file
+        const sample = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+        const guess = detectEncoding(sample);
+
         setSelectedFile(file);
+        setFileSample(sample);
+        setEncodingGuess(guess);
+        setEncoding(guess.encoding);
+        setCards([]);
         setContacts([]);
+        setGroups([]);
+        setMedia([]);
         setCsvContent('');
+        setLargeFile(null);
+        setDiagnostics([]);
         toast({
           title: "File selected",
           description: `${file.name} is ready for conversion`
@@ -30,7 +144,7 @@ const VCFConverter = () => {
       } else {
         toast({
           title: "Invalid file type",
-          description: "Please select a VCF file",
+          description: "Please select a VCF, jCard or xCard file",
           variant: "destructive"
         });
       }
@@ -48,32 +162,105 @@ const VCFConverter = () => {
     }
 
     setIsProcessing(true);
+    setConversionProgress(null);
+
     try {
-      const fileContent = await selectedFile.text();
-      const parsedContacts = parseVCF(fileContent);
-      const csv = convertToCSV(parsedContacts);
-      
+      // xCard files are parsed here, as the worker has no DOMParser
+      const parsed = /\.xml$/i.test(selectedFile.name)
+        ? parseXCards(decodeText(new Uint8Array(await selectedFile.arrayBuffer()), encoding))
+        : undefined;
+      const job = startConversion({ file: selectedFile, encoding, options, dialect, parsed }, setConversionProgress);
+      conversionJobRef.current = job;
+
+      const output = await job.result;
+      if (!output) {
+        toast({
+          title: "Conversion cancelled",
+          description: "No contacts were converted"
+        });
+        return;
+      }
+
+      const {
+        cards: parsedCards,
+        contacts: parsedContacts,
+        groups: parsedGroups,
+        media: parsedMedia,
+        diagnostics: parseDiagnostics,
+        csv,
+        largeFile: largeFileOutput
+      } = output;
+      const convertedCount = largeFileOutput ? largeFileOutput.contactCount : parsedContacts.length;
+
+      setCards(parsedCards);
       setContacts(parsedContacts);
+      setGroups(parsedGroups);
+      setMedia(parsedMedia);
       setCsvContent(csv);
+      setCsvDialect(dialect);
+      setCsvProfile(options.profile);
+      setColumnLayout(null);
+      setContactsEdited(false);
+      setLargeFile(largeFileOutput || null);
+      setDiagnostics(parseDiagnostics);
       
       toast({
         title: "Conversion successful!",
-        description: `Converted ${parsedContacts.length} contacts to CSV format`
+        description: parseDiagnostics.length > 0
+          ? `Converted ${convertedCount} contacts to CSV format with ${parseDiagnostics.length} issues`
+          : `Converted ${convertedCount} contacts to CSV format`
       });
     } catch (error) {
+      setDiagnostics([]);
       toast({
         title: "Conversion failed",
-        description: "There was an error processing your VCF file",
+        description: error instanceof Error
+          ? `There was an error processing your VCF file: ${error.message}`
+          : "There was an error processing your VCF file",
         variant: "destructive"
       });
     } finally {
+      conversionJobRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleProfileChange = (profile: OutputProfile) => {
+    setOptions({ ...options, profile });
+    // Outlook's importer reads CSV the way Excel on Windows writes it
+    if (profile === 'outlook') setDialect(CSV_PRESETS.find(preset => preset.id === 'excel-windows').dialect);
+  };
+
+  const handleCancel = () => {
+    conversionJobRef.current?.cancel();
+  };
+
+  const handleContactsChange = (update: (contacts: Contact[]) => Contact[]) => {
+    setContacts(update);
+    setContactsEdited(true);
+  };
+
+
+  // Spreadsheets and JSON are written from the contacts, like the CSV
+  const createExportFile = (format: ExportFormat): { file: Blob; fileType: string } => {
+    const exportLayout = columnLayout || undefined;
+    const groupsSheet = includeGroupsSheet ? groups : undefined;
+    if (format === 'xlsx') {
+      return { file: convertToXLSX(contacts, csvProfile, exportLayout, groupsSheet), fileType: 'Excel workbook' };
+    }
+    if (format === 'ods') {
+      return { file: convertToODS(contacts, csvProfile, exportLayout, groupsSheet), fileType: 'OpenDocument spreadsheet' };
+    }
+    if (format === 'json') {
+      const json = convertToJSON(contacts, csvProfile, exportLayout);
+      return { file: new Blob([json], { type: 'application/json;charset=utf-8;' }), fileType: 'JSON file' };
+    }
+    const ndjson = convertToNDJSON(contacts, csvProfile, exportLayout);
+    return { file: new Blob([ndjson], { type: 'application/x-ndjson;charset=utf-8;' }), fileType: 'NDJSON file' };
+  };
 
-  const handleSave = () => {
-    if (!csvContent) {
+  const handleSave = async () => {
+    if (!csvContent && !largeFile) {
       toast({
         title: "No CSV data",
         description: "Please convert a VCF file first",
@@ -82,13 +269,105 @@ const VCFConverter = () => {
       return;
     }
 
-    downloadCSV(csvContent, `${selectedFile?.name.replace('.vcf', '')}_contacts.csv`);
+    const baseName = `${selectedFile?.name.replace(INPUT_FILE_EXTENSION, '')}_contacts`;
+    const dialectChanged = !isSameDialect(csvDialect, dialect);
+
+    if (largeFile) {
+      // Large files aren't kept in memory, so their CSV can only be rewritten by converting again
+      if (exportFormat !== 'csv') {
+        toast({
+          title: "Large file",
+          description: "Large files can only be saved as CSV",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (dialectChanged) {
+        toast({
+          title: "Export settings changed",
+          description: "Convert the file again to save it with the new CSV format",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      downloadBlob(largeFile.csv, `${baseName}.csv`);
+      toast({
+        title: "File saved",
+        description: "CSV file has been downloaded"
+      });
+      return;
+    }
+
+    // Files of deleted contacts, or whose cells were edited, are left out
+    const exportedMedia = contactsEdited ? getReferencedMedia(contacts, media) : media;
+
+    // jCard and xCard are written from the parsed cards, so they keep properties CSV has
+    // no column for
+    if (CARD_FORMATS.includes(exportFormat)) {
+      const formatName = exportFormat === 'jcard' ? 'jCard' : 'xCard';
+      if (exportFormat === 'jcard') downloadJCard(writeJCards(cards), `${baseName}.jcard.json`);
+      else downloadXCard(writeXCards(cards), `${baseName}.xml`);
+      toast({
+        title: "File saved",
+        description: contactsEdited
+          ? `${formatName} file has been downloaded without the changes made in the preview`
+          : `${formatName} file has been downloaded`
+      });
+      return;
+    }
+
+    if (exportFormat !== 'csv') {
+      const { file, fileType } = createExportFile(exportFormat);
+      const fileName = `${baseName}.${exportFormat}`;
+      if (exportedMedia.length > 0) {
+        const exportedFile = { path: fileName, data: new Uint8Array(await file.arrayBuffer()) };
+        downloadBlob(createMediaBundle(exportedFile, exportedMedia), `${baseName}.zip`);
+        toast({
+          title: "File saved",
+          description: `ZIP with the ${fileType} and ${exportedMedia.length} media files has been downloaded`
+        });
+        return;
+      }
+
+      downloadBlob(file, fileName);
+      toast({
+        title: "File saved",
+        description: `${fileType} has been downloaded`
+      });
+      return;
+    }
+
+    // Export settings, columns or contacts changed since converting
+    const csv = dialectChanged || columnLayout || contactsEdited
+      ? convertToCSV(contacts, dialect, csvProfile, columnLayout || undefined)
+      : csvContent;
+
+    // Photos, logos and sounds are saved next to the CSV, which references them by path
+    if (exportedMedia.length > 0) {
+      downloadBlob(createExportBundle(csv, exportedMedia, `${baseName}.csv`, dialect), `${baseName}.zip`);
+      toast({
+        title: "File saved",
+        description: `ZIP with the CSV file and ${exportedMedia.length} media files has been downloaded`
+      });
+      return;
+    }
+
+    downloadCSV(csv, `${baseName}.csv`, dialect);
     toast({
       title: "File saved",
       description: "CSV file has been downloaded"
     });
   };
 
+  const handleSaveGroups = () => {
+    downloadCSV(convertGroupsToCSV(groups, dialect), `${selectedFile?.name.replace(INPUT_FILE_EXTENSION, '')}_groups.csv`, dialect);
+    toast({
+      title: "File saved",
+      description: "Groups CSV file has been downloaded"
+    });
+  };
+
   return (
     <div className="min-h-screen converter-gradient flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -98,67 +377,246 @@ const VCFConverter = () => {
             VCF&CSV Converter
           </h1>
           <p className="text-converter-text-muted text-lg">
-            📋 Select the VCF file to convert
+            📋 Select the {mode === 'vcf-to-csv' ? 'VCF' : 'CSV'} file to convert
           </p>
         </div>
 
-        {/* Action Buttons */}
-        <div className="space-y-4">
-          {/* File Selection */}
-          <Button
-            onClick={handleFileSelect}
-            variant="converter"
-            size="xl"
-            className="w-full"
-            disabled={isProcessing}
-          >
-            <Upload className="w-5 h-5" />
-            {selectedFile ? selectedFile.name : 'Select VCF file'}
-          </Button>
-
-          {/* Convert Button */}
-          <Button
-            onClick={handleConvert}
-            variant="converter"
-            size="xl"
-            className="w-full"
-            disabled={!selectedFile || isProcessing}
-          >
-            <FileText className="w-5 h-5" />
-            {isProcessing ? 'Converting...' : 'Convert to CSV'}
-          </Button>
-
-
-          {/* Save Button */}
-          <Button
-            onClick={handleSave}
-            variant="converter"
-            size="xl"
-            className="w-full"
-            disabled={!csvContent || isProcessing}
-          >
-            <Download className="w-5 h-5" />
-            Save CSV
-          </Button>
-        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as ConverterMode)}>
+          <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsTrigger value="vcf-to-csv">VCF → CSV</TabsTrigger>
+            <TabsTrigger value="csv-to-vcf">CSV → VCF</TabsTrigger>
+          </TabsList>
 
-        {/* Status */}
-        {contacts.length > 0 && (
-          <div className="mt-8 p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20">
-            <p className="text-converter-text text-center">
-              ✅ Successfully converted {contacts.length} contacts
-            </p>
-          </div>
-        )}
-
-        {/* Hidden file input */}
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".vcf"
-          onChange={handleFileChange}
-          className="hidden"
-        />
+          <TabsContent value="vcf-to-csv">
+            {/* Action Buttons */}
+            <div className="space-y-4">
+              {/* File Selection */}
+              <Button
+                onClick={handleFileSelect}
+                variant="converter"
+                size="xl"
+                className="w-full"
+                disabled={isProcessing}
+              >
+                <Upload className="w-5 h-5" />
+                {selectedFile ? selectedFile.name : 'Select VCF, jCard or xCard file'}
+              </Button>
+
+              {/* Encoding */}
+              {fileSample && encodingGuess && (
+                <EncodingPicker
+                  sample={fileSample}
+                  guess={encodingGuess}
+                  encoding={encoding}
+                  onEncodingChange={setEncoding}
+                  disabled={isProcessing}
+                />
+              )}
+
+              {/* Conversion Options */}
+              <div className="p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20 space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="output-profile" className="text-converter-text">
+                    Columns
+                  </Label>
+                  <Select
+                    value={options.profile}
+                    onValueChange={(value) => handleProfileChange(value as OutputProfile)}
+                    disabled={isProcessing}
+                  >
+                    <SelectTrigger id="output-profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_PROFILES.map(profile => (
+                        <SelectItem key={profile.value} value={profile.value}>
+                          {profile.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id="include-formatted-address"
+                    checked={options.includeFormattedAddress}
+                    onCheckedChange={(checked) => setOptions({ ...options, includeFormattedAddress: checked === true })}
+                    disabled={isProcessing || options.profile !== 'generic'}
+                  />
+                  <Label htmlFor="include-formatted-address" className="text-converter-text">
+                    Also keep one-line addresses
+                  </Label>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    id="include-address-label"
+                    checked={options.includeAddressLabel}
+                    onCheckedChange={(checked) => setOptions({ ...options, includeAddressLabel: checked === true })}
+                    disabled={isProcessing || options.profile !== 'generic'}
+                  />
+                  <Label htmlFor="include-address-label" className="text-converter-text">
+                    Include address labels (vCard 4.0)
+                  </Label>
+                </div>
+              </div>
+
+              {/* Export Settings */}
+              <ExportSettings dialect={dialect} onDialectChange={setDialect} disabled={isProcessing} />
+
+              {/* Convert Button */}
+              <Button
+                onClick={handleConvert}
+                variant="converter"
+                size="xl"
+                className="w-full"
+                disabled={!selectedFile || isProcessing}
+              >
+                <FileText className="w-5 h-5" />
+                {isProcessing ? 'Converting...' : 'Convert to CSV'}
+              </Button>
+
+
+              {/* Progress */}
+              {isProcessing && (
+                <ProgressPanel progress={conversionProgress} onCancel={handleCancel} />
+              )}
+
+              {/* Preview Button */}
+              {contacts.length > 0 && (
+                <Button
+                  onClick={() => setIsPreviewOpen(true)}
+                  variant="converter"
+                  size="xl"
+                  className="w-full"
+                  disabled={isProcessing}
+                >
+                  <Table2 className="w-5 h-5" />
+                  Preview and edit contacts
+                </Button>
+              )}
+
+              {/* Column Mapping Button */}
+              {contacts.length > 0 && (
+                <Button
+                  onClick={() => setIsMappingOpen(true)}
+                  variant="converter"
+                  size="xl"
+                  className="w-full"
+                  disabled={isProcessing}
+                >
+                  <Columns3 className="w-5 h-5" />
+                  {columnLayout ? `Edit columns (${columnLayout.columns.length})` : 'Edit columns'}
+                </Button>
+              )}
+
+              {/* Save Button */}
+              <div className="flex gap-2">
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) => setExportFormat(value as ExportFormat)}
+                  disabled={isProcessing}
+                >
+                  <SelectTrigger className="w-36 h-14" aria-label="File format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPORT_FORMATS.map(format => (
+                      <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleSave}
+                  variant="converter"
+                  size="xl"
+                  className="flex-1 px-4"
+                  disabled={(!csvContent && !largeFile) || isProcessing}
+                >
+                  <Download className="w-5 h-5" />
+                  {media.length > 0 && !CARD_FORMATS.includes(exportFormat) ? 'Save with media (ZIP)' : 'Save'}
+                </Button>
+              </div>
+
+              {SPREADSHEET_FORMATS.includes(exportFormat) && (
+                <div className="flex items-center gap-3 px-1">
+                  <Checkbox
+                    id="include-groups-sheet"
+                    checked={includeGroupsSheet}
+                    onCheckedChange={(checked) => setIncludeGroupsSheet(checked === true)}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="include-groups-sheet" className="text-converter-text">
+                    Add a sheet listing groups and categories
+                  </Label>
+                </div>
+              )}
+
+              {/* Save Groups Button */}
+              {groups.length > 0 && (
+                <Button
+                  onClick={handleSaveGroups}
+                  variant="converter"
+                  size="xl"
+                  className="w-full"
+                  disabled={isProcessing}
+                >
+                  <Users className="w-5 h-5" />
+                  Save groups CSV
+                </Button>
+              )}
+            </div>
+
+            {/* Status */}
+            {contactCount > 0 && (
+              <div className="mt-8 p-4 bg-converter-surface/80 backdrop-blur-sm rounded-lg border border-white/20">
+                <p className="text-converter-text text-center">
+                  ✅ Successfully converted {contactCount} contacts
+                  {groups.length > 0 && ` and ${groups.length} groups`}
+                </p>
+                {largeFile && (
+                  <p className="text-converter-text-muted text-sm text-center mt-2">
+                    Large file: embedded photos, logos and sounds were left out
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Diagnostics */}
+            <DiagnosticsPanel diagnostics={diagnostics} />
+
+            {/* Contact Preview */}
+            <ContactPreview
+              open={isPreviewOpen}
+              onOpenChange={setIsPreviewOpen}
+              contacts={contacts}
+              columns={columns}
+              onContactsChange={handleContactsChange}
+            />
+
+            {/* Column Mapping */}
+            <ColumnMappingEditor
+              open={isMappingOpen}
+              onOpenChange={setIsMappingOpen}
+              fields={columns}
+              layout={layout}
+              onLayoutChange={setColumnLayout}
+            />
+
+            {/* Hidden file input */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".vcf,.json,.xml"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </TabsContent>
+
+          {/* Kept mounted so the selected CSV and its mapping survive switching tabs */}
+          <TabsContent value="csv-to-vcf" forceMount className="data-[state=inactive]:hidden">
+            <CSVImporter />
+          </TabsContent>
+        </Tabs>
 
         {/* Footer */}
         <div className="mt-12 text-center">
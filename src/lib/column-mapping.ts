@@ -0,0 +1,99 @@
+// User-defined CSV layouts: which fields become columns, in which order, under which
+// header, and which fields are merged into a single cell. Layouts can be saved as named
+// templates in localStorage and applied to the next file.
+import { Contact } from './vcf-converter';
+
+export interface ColumnMapping {
+  // Header written to the CSV
+  header: string;
+  // Contact fields whose values fill the column; values of several fields are joined
+  sources: string[];
+  separator: string;
+}
+
+export interface ColumnLayout {
+  columns: ColumnMapping[];
+  // Fields left out of the CSV
+  excluded: string[];
+}
+
+export interface MappingTemplate extends ColumnLayout {
+  name: string;
+}
+
+const TEMPLATES_KEY = 'vcf-converter.mapping-templates';
+
+export const DEFAULT_MERGE_SEPARATOR = '; ';
+
+// One column per field, named after it
+export function createDefaultLayout(fields: string[]): ColumnLayout {
+  return {
+    columns: fields.map(field => ({ header: field, sources: [field], separator: DEFAULT_MERGE_SEPARATOR })),
+    excluded: []
+  };
+}
+
+// Fits a layout to the fields of another file: sources the file doesn't have are
+// dropped (with columns left without any), and fields the layout doesn't mention
+// are added as columns at the end
+export function fitLayout(layout: ColumnLayout, fields: string[]): ColumnLayout {
+  const available = new Set(fields);
+  const columns = layout.columns
+    .map(column => ({ ...column, sources: column.sources.filter(source => available.has(source)) }))
+    .filter(column => column.sources.length > 0);
+
+  const mapped = new Set([...columns.flatMap(column => column.sources), ...layout.excluded]);
+  const added = fields.filter(field => !mapped.has(field));
+
+  return {
+    columns: [...columns, ...createDefaultLayout(added).columns],
+    excluded: layout.excluded.filter(field => available.has(field))
+  };
+}
+
+// Rewrites contacts into the layout's columns, keyed by header
+export function applyLayout(contacts: Contact[], layout: ColumnLayout): Contact[] {
+  return contacts.map(contact => {
+    const row: Contact = {};
+    for (const column of layout.columns) {
+      row[column.header] = column.sources
+        .map(source => contact[source])
+        .filter(Boolean)
+        .join(column.separator);
+    }
+    return row;
+  });
+}
+
+export function getLayoutHeaders(layout: ColumnLayout): string[] {
+  return layout.columns.map(column => column.header);
+}
+
+export function loadTemplates(): MappingTemplate[] {
+  try {
+    const templates = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return Array.isArray(templates) ? templates : [];
+  } catch {
+    return [];
+  }
+}
+
+// Throws when the browser refuses to store the templates: storage is full, or disabled
+// as in some private windows
+function storeTemplates(templates: MappingTemplate[]): MappingTemplate[] {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch {
+    throw new Error('The browser did not allow the templates to be stored');
+  }
+  return templates;
+}
+
+// Saves a template, replacing any template with the same name
+export function saveTemplate(template: MappingTemplate): MappingTemplate[] {
+  return storeTemplates([...loadTemplates().filter(existing => existing.name !== template.name), template]);
+}
+
+export function deleteTemplate(name: string): MappingTemplate[] {
+  return storeTemplates(loadTemplates().filter(template => template.name !== name));
+}
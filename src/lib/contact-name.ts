@@ -0,0 +1,63 @@
+// Splitting of contact names into their parts, shared by the CSV projections
+import { VCard, getComponents, getProperties, getText } from './vcard-model';
+
+export interface StructuredName {
+  prefix: string;
+  first: string;
+  middle: string;
+  last: string;
+  suffix: string;
+}
+
+// CSV columns filled from N (or, when a card has no N, guessed from FN), in output order
+export const NAME_COLUMNS = ['Prefix', 'First Name', 'Middle Name', 'Last Name', 'Suffix', 'Display Name'];
+
+const NAME_PREFIXES = ['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'rev', 'sir', 'dame', 'fr'];
+const NAME_SUFFIXES = ['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'esq', 'dds', 'cpa'];
+const SURNAME_PARTICLES = ['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'bin', 'ibn', 'al'];
+
+function normalizeNameToken(token: string): string {
+  return token.toLowerCase().replace(/[.,]/g, '');
+}
+
+// Best-effort split of a formatted name for cards without an N property:
+// "Dr. Mary Ann van der Berg Jr." becomes Dr. / Mary / Ann / van der Berg / Jr.
+export function parseName(fullName: string): StructuredName {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  const name: StructuredName = { prefix: '', first: '', middle: '', last: '', suffix: '' };
+
+  const prefixes: string[] = [];
+  while (parts.length > 1 && NAME_PREFIXES.includes(normalizeNameToken(parts[0]))) {
+    prefixes.push(parts.shift());
+  }
+
+  const suffixes: string[] = [];
+  while (parts.length > 1 && NAME_SUFFIXES.includes(normalizeNameToken(parts[parts.length - 1]))) {
+    suffixes.unshift(parts.pop());
+  }
+
+  name.prefix = prefixes.join(' ');
+  name.suffix = suffixes.join(' ').replace(/^,\s*/, '');
+  name.first = parts.shift() || '';
+
+  if (parts.length > 0) {
+    // The surname starts at the first particle ("van der Berg") or is the last word
+    let lastStart = parts.findIndex(part => SURNAME_PARTICLES.includes(part.toLowerCase()));
+    if (lastStart === -1) lastStart = parts.length - 1;
+    name.middle = parts.slice(0, lastStart).join(' ');
+    name.last = parts.slice(lastStart).join(' ').replace(/,$/, '');
+  }
+
+  return name;
+}
+
+// The parts of a card's name: from N, or guessed from FN when N is missing or empty
+export function getStructuredName(card: VCard): StructuredName {
+  for (const property of getProperties(card, 'N')) {
+    const [last = '', first = '', middle = '', prefix = '', suffix = ''] = getComponents(property, ' ');
+    if (last || first || middle || prefix || suffix) return { prefix, first, middle, last, suffix };
+  }
+
+  const formattedName = getProperties(card, 'FN').map(getText).find(Boolean);
+  return parseName(formattedName || '');
+}
@@ -0,0 +1,86 @@
+// Runs a conversion in a Web Worker so large address books don't freeze the page.
+// The worker reports progress while it reads and parses the file and can be
+// cancelled at any time by terminating it.
+import { ConversionOptions, ParseResult } from './vcf-converter';
+import { CSVDialect } from './csv-dialect';
+import { VCard } from './vcard-model';
+import { VCardParseResult } from './vcard-parser';
+
+export type ConversionPhase = 'reading' | 'parsing' | 'writing';
+
+export interface ConversionProgress {
+  phase: ConversionPhase;
+  // Bytes or lines processed in this phase; total is 0 when it can't be measured
+  completed: number;
+  total: number;
+  // Cards parsed or written so far
+  cards: number;
+}
+
+// VCF files above this size are converted by streaming, see convertVCFFile
+export const LARGE_FILE_SIZE = 64 * 1024 * 1024;
+
+export interface ConversionRequest {
+  file: File;
+  encoding: string;
+  options: ConversionOptions;
+  dialect: CSVDialect;
+  // Cards already parsed on the page. xCard files are read there, as workers have no DOMParser.
+  parsed?: VCardParseResult;
+}
+
+export interface ConversionOutput extends ParseResult {
+  // Parsed cards, for exports that keep every property
+  cards: VCard[];
+  csv: string;
+  // Set for large files, whose CSV is written straight into a Blob. Cards, contacts,
+  // media and csv are left empty for them.
+  largeFile?: { csv: Blob; contactCount: number };
+}
+
+// Messages posted by the worker
+export type ConversionMessage =
+  | { type: 'progress'; progress: ConversionProgress }
+  | { type: 'done'; output: ConversionOutput }
+  | { type: 'error'; message: string };
+
+export interface ConversionJob {
+  // Resolves with null when the job was cancelled
+  result: Promise<ConversionOutput | null>;
+  cancel: () => void;
+}
+
+export function startConversion(
+  request: ConversionRequest,
+  onProgress: (progress: ConversionProgress) => void
+): ConversionJob {
+  const worker = new Worker(new URL('./conversion.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (output: ConversionOutput | null) => void;
+  let fail: (error: Error) => void;
+
+  const result = new Promise<ConversionOutput | null>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  }).finally(() => worker.terminate());
+
+  worker.onmessage = (event: MessageEvent<ConversionMessage>) => {
+    const message = event.data;
+    if (message.type === 'progress') onProgress(message.progress);
+    else if (message.type === 'done') settle(message.output);
+    else fail(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    fail(new Error(event.message || 'The conversion worker stopped unexpectedly'));
+  };
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+}
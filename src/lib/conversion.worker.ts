@@ -0,0 +1,83 @@
+// Worker side of conversion-job.ts: reads, decodes, parses and serializes the file
+// off the main thread and posts progress along the way.
+import { ConversionMessage, ConversionProgress, ConversionRequest, LARGE_FILE_SIZE } from './conversion-job';
+import { convertToCSV, convertVCFFile, convertVCards } from './vcf-converter';
+import { VCardParseResult, parseVCards } from './vcard-parser';
+import { parseJCards } from './jcard';
+import { streamText } from './text-encoding';
+
+// Minimum time between progress messages, so posting them doesn't slow the job down
+const PROGRESS_INTERVAL = 100;
+
+let lastProgress = 0;
+
+function post(message: ConversionMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+function reportProgress(progress: ConversionProgress, force: boolean = false): void {
+  const now = Date.now();
+  if (!force && now - lastProgress < PROGRESS_INTERVAL) return;
+  lastProgress = now;
+  post({ type: 'progress', progress });
+}
+
+async function readFile(file: File, encoding: string): Promise<string> {
+  const chunks: string[] = [];
+  await streamText(file, encoding, (text, bytesRead) => {
+    chunks.push(text);
+    reportProgress({ phase: 'reading', completed: bytesRead, total: file.size, cards: 0 });
+  });
+  return chunks.join('');
+}
+
+async function parseFile(file: File, encoding: string, isJCard: boolean): Promise<VCardParseResult> {
+  const content = await readFile(file, encoding);
+  if (isJCard) return parseJCards(content);
+  return parseVCards(content, ({ cards, line, totalLines }) => {
+    reportProgress({ phase: 'parsing', completed: line, total: totalLines, cards });
+  });
+}
+
+async function convertLargeFile({ file, encoding, options, dialect }: ConversionRequest): Promise<void> {
+  const { csv, contactCount, groups, diagnostics } = await convertVCFFile(
+    file,
+    encoding,
+    options,
+    dialect,
+    ({ pass, bytesRead, cards }) => {
+      reportProgress({ phase: pass === 1 ? 'parsing' : 'writing', completed: bytesRead, total: file.size, cards });
+    }
+  );
+
+  post({
+    type: 'done',
+    output: { cards: [], contacts: [], groups, media: [], diagnostics, csv: '', largeFile: { csv, contactCount } }
+  });
+}
+
+self.onmessage = async (event: MessageEvent<ConversionRequest>) => {
+  const { file, encoding, options, dialect, parsed } = event.data;
+
+  try {
+    // jCard files are JSON, which can only be parsed as a whole
+    const isJCard = /\.json$/i.test(file.name);
+    if (file.size > LARGE_FILE_SIZE && !isJCard && !parsed) {
+      await convertLargeFile(event.data);
+      return;
+    }
+
+    const { cards: parsedCards, diagnostics } = parsed || await parseFile(file, encoding, isJCard);
+    const result = { ...convertVCards(parsedCards, options), diagnostics };
+
+    const cards = result.contacts.length + result.groups.length;
+    reportProgress({ phase: 'writing', completed: 0, total: 0, cards }, true);
+    const csv = convertToCSV(result.contacts, dialect, options.profile);
+
+    // Media bytes are moved to the page instead of copied
+    const buffers = new Set(result.media.map(file => file.data.buffer));
+    post({ type: 'done', output: { ...result, cards: parsedCards, csv } }, [...buffers]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
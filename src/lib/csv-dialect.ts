@@ -0,0 +1,121 @@
+// CSV flavours understood by spreadsheet applications. Excel on Windows only reads
+// UTF-8 correctly when the file starts with a byte order mark, and in locales that
+// use a decimal comma it expects ";" between fields.
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+export type CSVLineEnding = '\r\n' | '\n';
+// "needed" quotes only fields containing the delimiter, a quote or a line break
+export type CSVQuoting = 'always' | 'needed';
+export type CSVEncoding = 'utf-8' | 'utf-16le';
+
+// Select values can't be control characters, so delimiters are also keyed by name
+export const CSV_DELIMITERS: { value: string; label: string; delimiter: CSVDelimiter }[] = [
+  { value: 'comma', label: 'Comma (,)', delimiter: ',' },
+  { value: 'semicolon', label: 'Semicolon (;)', delimiter: ';' },
+  { value: 'tab', label: 'Tab', delimiter: '\t' },
+  { value: 'pipe', label: 'Pipe (|)', delimiter: '|' }
+];
+
+export interface CSVDialect {
+  delimiter: CSVDelimiter;
+  lineEnding: CSVLineEnding;
+  quoting: CSVQuoting;
+  encoding: CSVEncoding;
+  bom: boolean;
+}
+
+export interface CSVPreset {
+  id: string;
+  label: string;
+  dialect: CSVDialect;
+}
+
+// The format written before export settings existed
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  delimiter: ',',
+  lineEnding: '\n',
+  quoting: 'always',
+  encoding: 'utf-8',
+  bom: false
+};
+
+export const CSV_PRESETS: CSVPreset[] = [
+  { id: 'default', label: 'Default', dialect: DEFAULT_CSV_DIALECT },
+  {
+    id: 'excel-windows',
+    label: 'Excel (Windows)',
+    dialect: { delimiter: ',', lineEnding: '\r\n', quoting: 'needed', encoding: 'utf-8', bom: true }
+  },
+  {
+    id: 'excel-europe',
+    label: 'Excel (Europe)',
+    dialect: { delimiter: ';', lineEnding: '\r\n', quoting: 'needed', encoding: 'utf-8', bom: true }
+  },
+  {
+    id: 'excel-mac',
+    label: 'Excel (Mac)',
+    dialect: { delimiter: ',', lineEnding: '\n', quoting: 'needed', encoding: 'utf-8', bom: true }
+  },
+  {
+    // Excel's "Unicode Text", which every Excel version opens without an import dialog
+    id: 'excel-unicode',
+    label: 'Excel (Unicode text)',
+    dialect: { delimiter: '\t', lineEnding: '\r\n', quoting: 'needed', encoding: 'utf-16le', bom: true }
+  },
+  {
+    id: 'libreoffice',
+    label: 'LibreOffice',
+    dialect: { delimiter: ',', lineEnding: '\n', quoting: 'needed', encoding: 'utf-8', bom: false }
+  },
+  {
+    id: 'rfc-4180',
+    label: 'RFC 4180',
+    dialect: { delimiter: ',', lineEnding: '\r\n', quoting: 'needed', encoding: 'utf-8', bom: false }
+  }
+];
+
+export function isSameDialect(a: CSVDialect, b: CSVDialect): boolean {
+  return a.delimiter === b.delimiter &&
+    a.lineEnding === b.lineEnding &&
+    a.quoting === b.quoting &&
+    a.encoding === b.encoding &&
+    a.bom === b.bom;
+}
+
+// Returns the preset matching the dialect, if any
+export function findPreset(dialect: CSVDialect): CSVPreset | undefined {
+  return CSV_PRESETS.find(preset => isSameDialect(preset.dialect, dialect));
+}
+
+export function formatCSVValue(value: string, dialect: CSVDialect): string {
+  const needsQuotes = dialect.quoting === 'always' ||
+    value.includes(dialect.delimiter) ||
+    /["\r\n]/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCSVRow(values: string[], dialect: CSVDialect): string {
+  return values.map(value => formatCSVValue(value, dialect)).join(dialect.delimiter);
+}
+
+// Encodes text in the dialect's encoding, without a byte order mark
+export function encodeCSVText(text: string, encoding: CSVEncoding): Uint8Array {
+  if (encoding === 'utf-8') return new TextEncoder().encode(text);
+
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i * 2] = code & 0xff;
+    bytes[i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+// Encodes a whole CSV file, starting with a byte order mark if the dialect wants one
+export function encodeCSV(csvContent: string, dialect: CSVDialect): Uint8Array {
+  return encodeCSVText((dialect.bom ? '\uFEFF' : '') + csvContent, dialect.encoding);
+}
+
+export function getCSVMimeType(dialect: CSVDialect): string {
+  return `text/csv;charset=${dialect.encoding};`;
+}
@@ -0,0 +1,465 @@
+// Turns CSV rows back into vCards. Each column is mapped to a vCard property (or a
+// component of one); mappings are suggested for the CSV files Google Contacts,
+// Outlook and this app write, and for common header names.
+import { NAME_COLUMNS } from './contact-name';
+import { IM_SCHEMES } from './google-contacts';
+import { OUTLOOK_COLUMNS } from './outlook-contacts';
+import { CSVRecord } from './csv-parser';
+import { VCard, VCardProperty, VCardValueType } from './vcard-model';
+
+// Which application wrote the CSV, guessed from its headers
+export type CSVSource = 'google' | 'outlook' | 'generic' | 'unknown';
+
+export interface ImportTarget {
+  id: string;
+  label: string;
+  property: string;
+  types?: string[];
+  // Component of a structured property (N, ADR, ORG)
+  component?: number;
+}
+
+// Target id for each column, in column order; '' leaves the column out
+export type ImportMapping = string[];
+
+// ADR components in vCard order
+const ADDRESS_PARTS = [
+  { key: 'po-box', label: 'PO box' },
+  { key: 'extended', label: 'extended address' },
+  { key: 'street', label: 'street' },
+  { key: 'city', label: 'city' },
+  { key: 'region', label: 'region' },
+  { key: 'postal-code', label: 'postal code' },
+  { key: 'country', label: 'country' }
+];
+
+const ADDRESS_PLACES = [
+  { key: 'home', label: 'Home', types: ['home'] },
+  { key: 'work', label: 'Work', types: ['work'] },
+  { key: 'other', label: 'Other', types: [] }
+];
+
+// Targets in the order their properties are written to a card
+export const IMPORT_TARGETS: ImportTarget[] = [
+  { id: 'FN', label: 'Display name', property: 'FN' },
+  { id: 'N.prefix', label: 'Name prefix', property: 'N', component: 3 },
+  { id: 'N.given', label: 'First name', property: 'N', component: 1 },
+  { id: 'N.additional', label: 'Middle name', property: 'N', component: 2 },
+  { id: 'N.family', label: 'Last name', property: 'N', component: 0 },
+  { id: 'N.suffix', label: 'Name suffix', property: 'N', component: 4 },
+  { id: 'NICKNAME', label: 'Nickname', property: 'NICKNAME' },
+  { id: 'ORG', label: 'Organization', property: 'ORG', component: 0 },
+  { id: 'ORG.unit', label: 'Department', property: 'ORG', component: 1 },
+  { id: 'TITLE', label: 'Job title', property: 'TITLE' },
+  { id: 'ROLE', label: 'Role', property: 'ROLE' },
+  { id: 'TEL', label: 'Phone', property: 'TEL' },
+  { id: 'TEL.cell', label: 'Mobile phone', property: 'TEL', types: ['cell'] },
+  { id: 'TEL.home', label: 'Home phone', property: 'TEL', types: ['home'] },
+  { id: 'TEL.work', label: 'Work phone', property: 'TEL', types: ['work'] },
+  { id: 'TEL.home-fax', label: 'Home fax', property: 'TEL', types: ['home', 'fax'] },
+  { id: 'TEL.work-fax', label: 'Work fax', property: 'TEL', types: ['work', 'fax'] },
+  { id: 'TEL.fax', label: 'Fax', property: 'TEL', types: ['fax'] },
+  { id: 'TEL.pager', label: 'Pager', property: 'TEL', types: ['pager'] },
+  { id: 'EMAIL', label: 'E-mail', property: 'EMAIL' },
+  { id: 'EMAIL.home', label: 'Home e-mail', property: 'EMAIL', types: ['home'] },
+  { id: 'EMAIL.work', label: 'Work e-mail', property: 'EMAIL', types: ['work'] },
+  { id: 'IMPP', label: 'Instant messaging', property: 'IMPP' },
+  ...ADDRESS_PLACES.flatMap(place => ADDRESS_PARTS.map((part, index) => ({
+    id: `ADR.${place.key}.${part.key}`,
+    label: `${place.label} address: ${part.label}`,
+    property: 'ADR',
+    types: place.types,
+    component: index
+  }))),
+  { id: 'URL', label: 'Website', property: 'URL' },
+  { id: 'BDAY', label: 'Birthday', property: 'BDAY' },
+  { id: 'ANNIVERSARY', label: 'Anniversary', property: 'ANNIVERSARY' },
+  { id: 'CATEGORIES', label: 'Groups', property: 'CATEGORIES' },
+  { id: 'NOTE', label: 'Notes', property: 'NOTE' }
+];
+
+const PROPERTY_TYPES: { [property: string]: VCardValueType } = {
+  'URL': 'uri',
+  'IMPP': 'uri',
+  'BDAY': 'date-and-or-time',
+  'ANNIVERSARY': 'date-and-or-time'
+};
+
+// Lowercased headers of Google Contacts, Outlook and this app, and common spellings
+const HEADER_TARGETS: { [header: string]: string } = {
+  'name': 'FN',
+  'display name': 'FN',
+  'full name': 'FN',
+  'prefix': 'N.prefix',
+  'name prefix': 'N.prefix',
+  'first name': 'N.given',
+  'given name': 'N.given',
+  'middle name': 'N.additional',
+  'additional name': 'N.additional',
+  'last name': 'N.family',
+  'family name': 'N.family',
+  'surname': 'N.family',
+  'suffix': 'N.suffix',
+  'name suffix': 'N.suffix',
+  'nickname': 'NICKNAME',
+  'organization': 'ORG',
+  'organization name': 'ORG',
+  'company': 'ORG',
+  'department': 'ORG.unit',
+  'organization department': 'ORG.unit',
+  'title': 'TITLE',
+  'job title': 'TITLE',
+  'organization title': 'TITLE',
+  'role': 'ROLE',
+  'profession': 'ROLE',
+  'phone': 'TEL',
+  'telephone': 'TEL',
+  'other phone': 'TEL',
+  'primary phone': 'TEL',
+  'company main phone': 'TEL.work',
+  'mobile': 'TEL.cell',
+  'mobile phone': 'TEL.cell',
+  'cell phone': 'TEL.cell',
+  'home phone': 'TEL.home',
+  'home phone 2': 'TEL.home',
+  'work phone': 'TEL.work',
+  'business phone': 'TEL.work',
+  'business phone 2': 'TEL.work',
+  'home fax': 'TEL.home-fax',
+  'business fax': 'TEL.work-fax',
+  'other fax': 'TEL.fax',
+  'fax': 'TEL.fax',
+  'pager': 'TEL.pager',
+  'email': 'EMAIL',
+  'e-mail': 'EMAIL',
+  'email address': 'EMAIL',
+  'e-mail address': 'EMAIL',
+  'e-mail 2 address': 'EMAIL',
+  'e-mail 3 address': 'EMAIL',
+  'website': 'URL',
+  'web page': 'URL',
+  'url': 'URL',
+  'birthday': 'BDAY',
+  'anniversary': 'ANNIVERSARY',
+  'notes': 'NOTE',
+  'note': 'NOTE',
+  'categories': 'CATEGORIES',
+  'groups': 'CATEGORIES',
+  'group membership': 'CATEGORIES',
+  'labels': 'CATEGORIES',
+  'street': 'ADR.other.street',
+  'city': 'ADR.other.city',
+  'state': 'ADR.other.region',
+  'region': 'ADR.other.region',
+  'zip': 'ADR.other.postal-code',
+  'postal code': 'ADR.other.postal-code',
+  'country': 'ADR.other.country'
+};
+
+// Outlook's address columns, e.g. "Business Street 2" or "Home Country/Region"
+const OUTLOOK_ADDRESS_PLACES: { [place: string]: string } = {
+  'business': 'work',
+  'home': 'home',
+  'other': 'other'
+};
+
+const OUTLOOK_ADDRESS_PARTS: { [part: string]: string } = {
+  'street': 'street',
+  'street 2': 'street',
+  'street 3': 'street',
+  'city': 'city',
+  'state': 'region',
+  'postal code': 'postal-code',
+  'country/region': 'country',
+  'address po box': 'po-box'
+};
+
+// Columns of Google's numbered sections, e.g. "Phone 2 - Value" or "Address 1 - City"
+const GOOGLE_SECTION_TARGETS: { [column: string]: string } = {
+  'e-mail value': 'EMAIL',
+  'phone value': 'TEL',
+  'website value': 'URL',
+  'im value': 'IMPP',
+  'address street': 'ADR.other.street',
+  'address city': 'ADR.other.city',
+  'address po box': 'ADR.other.po-box',
+  'address region': 'ADR.other.region',
+  'address postal code': 'ADR.other.postal-code',
+  'address country': 'ADR.other.country',
+  'address extended address': 'ADR.other.extended',
+  'organization name': 'ORG',
+  'organization title': 'TITLE',
+  'organization department': 'ORG.unit',
+  'organization job description': 'ROLE'
+};
+
+// This app's headers: "Phone Cell", "Email Work (Preferred)", "Address Home 2 Street"
+const GENERIC_ADDRESS_PARTS: { [part: string]: string } = {
+  'po box': 'po-box',
+  'extended address': 'extended',
+  'street': 'street',
+  'city': 'city',
+  'region': 'region',
+  'postal code': 'postal-code',
+  'country': 'country'
+};
+
+const GOOGLE_SECTION = /^(.+ \d+) - (.+)$/;
+
+// Type words of Google's Type/Label columns and this app's headers
+const TYPE_WORDS: { [word: string]: string } = {
+  'mobile': 'cell',
+  'cell': 'cell',
+  'iphone': 'cell',
+  'home': 'home',
+  'work': 'work',
+  'business': 'work',
+  'fax': 'fax',
+  'pager': 'pager',
+  'main': 'main',
+  'voice': 'voice'
+};
+
+// Properties of this app's typed headers: "Phone Cell", "Email Work", "Website 2",
+// "Website Home Page", "IMPP Skype (Preferred)"
+const TYPED_HEADER_PROPERTIES: { [word: string]: string } = {
+  'phone': 'TEL',
+  'email': 'EMAIL',
+  'e-mail': 'EMAIL',
+  'website': 'URL',
+  'impp': 'IMPP',
+  'im': 'IMPP'
+};
+
+// Extension properties this app writes as they are named, e.g. "X-AIM" or "X-JABBER 2",
+// and the URI scheme their values get as IMPP
+const IM_HEADER_SCHEMES: { [header: string]: string } = {
+  'x-aim': 'aim',
+  'x-google-talk': 'xmpp',
+  'x-icq': 'icq',
+  'x-jabber': 'xmpp',
+  'x-msn': 'msnim',
+  'x-qq': 'qq',
+  'x-skype': 'skype',
+  'x-yahoo': 'ymsgr'
+};
+
+function getIMHeaderScheme(header: string): string | undefined {
+  return IM_HEADER_SCHEMES[header.trim().toLowerCase().replace(/ \d+$/, '')];
+}
+
+function getTypeWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z]+/).map(word => TYPE_WORDS[word]).filter(Boolean);
+}
+
+// The target of one of this app's typed headers: the most specific target whose
+// types the header has
+function getTypedTarget(property: string, words: string[]): string {
+  const targets = IMPORT_TARGETS
+    .filter(target => target.property === property && (target.types || []).every(type => words.includes(type)))
+    .sort((a, b) => (b.types || []).length - (a.types || []).length);
+  return targets.length > 0 ? targets[0].id : property;
+}
+
+export function detectCSVSource(headers: string[]): CSVSource {
+  // Outlook and Google share some name columns with this app, but not Prefix and Display Name
+  if (NAME_COLUMNS.every(column => headers.includes(column))) return 'generic';
+  if (headers.some(header => /^(E-mail|Phone) \d+ - (Value|Type|Label)$/.test(header)) ||
+    headers.includes('Group Membership')) {
+    return 'google';
+  }
+  if (headers.includes('E-mail Address') || headers.filter(header => OUTLOOK_COLUMNS.includes(header)).length >= 10) {
+    return 'outlook';
+  }
+  return 'unknown';
+}
+
+function suggestTarget(header: string, source: CSVSource): string {
+  const normalized = header.trim().toLowerCase();
+
+  // Outlook's Title is the name prefix; everywhere else it's the job title
+  if (source === 'outlook' && normalized === 'title') return 'N.prefix';
+  if (HEADER_TARGETS[normalized]) return HEADER_TARGETS[normalized];
+
+  const section = normalized.match(GOOGLE_SECTION);
+  if (section) return GOOGLE_SECTION_TARGETS[`${section[1].replace(/ \d+$/, '')} ${section[2]}`] || '';
+
+  const outlookAddress = normalized.match(/^(business|home|other) (.+)$/);
+  if (outlookAddress && OUTLOOK_ADDRESS_PARTS[outlookAddress[2]]) {
+    return `ADR.${OUTLOOK_ADDRESS_PLACES[outlookAddress[1]]}.${OUTLOOK_ADDRESS_PARTS[outlookAddress[2]]}`;
+  }
+
+  const address = normalized.match(/^address(.*?) (po box|extended address|street|city|region|postal code|country)$/);
+  if (address) {
+    const words = getTypeWords(address[1]);
+    const place = words.includes('home') ? 'home' : words.includes('work') ? 'work' : 'other';
+    return `ADR.${place}.${GENERIC_ADDRESS_PARTS[address[2]]}`;
+  }
+
+  const typed = normalized.match(/^(phone|e-?mail|website|impp|im)\b(.*)$/);
+  if (typed && !/(type|label|display name|service)$/.test(typed[2])) {
+    return getTypedTarget(TYPED_HEADER_PROPERTIES[typed[1]], getTypeWords(typed[2]));
+  }
+  if (getIMHeaderScheme(header)) return 'IMPP';
+
+  return '';
+}
+
+// A target for every column that looks like one the app knows
+export function suggestMapping(headers: string[], source: CSVSource): ImportMapping {
+  return headers.map(header => suggestTarget(header, source));
+}
+
+// Types from the Type (or Label) column of a Google section, e.g. "* Mobile" for
+// "Phone 1 - Value". "* " marks the preferred entry.
+function getSectionTypes(header: string, headers: string[], row: string[]): string[] {
+  const section = header.match(GOOGLE_SECTION);
+  if (!section) return [];
+  const typeIndex = headers.findIndex(other => other === `${section[1]} - Type` || other === `${section[1]} - Label`);
+  const type = typeIndex === -1 ? '' : (row[typeIndex] || '').trim();
+  return [...getTypeWords(type), ...(type.startsWith('* ') ? ['pref'] : [])];
+}
+
+// The scheme for the values of a Google IM section, from its Service column: "Jabber"
+// for "IM 1 - Value" gives xmpp, the reverse of the export's IM_SCHEMES
+function getSectionScheme(header: string, headers: string[], row: string[]): string | undefined {
+  const section = header.match(GOOGLE_SECTION);
+  if (!section) return undefined;
+  const service = (row[headers.indexOf(`${section[1]} - Service`)] || '').trim().toLowerCase();
+  const scheme = Object.keys(IM_SCHEMES).find(candidate => IM_SCHEMES[candidate].toLowerCase() === service);
+  // Services the export capitalized from an unknown scheme, e.g. "Matrix"
+  return scheme || (/^[a-z][a-z0-9+.-]*$/.test(service) ? service : undefined);
+}
+
+// Outlook writes dates as M/D/YYYY and an empty date as 0/0/00; both are turned into
+// ISO dates, or dropped when empty. Other values are kept as written.
+function parseCSVDate(value: string): string {
+  if (/^0{1,2}\/0{1,2}\/0{2,4}$/.test(value)) return '';
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return value;
+  return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+// Columns that fill the same address: Google's sections ("Address 1 - City") and this
+// app's numbered addresses ("Address Home 2 City") have one per section, Outlook one per place
+function getAddressKey(header: string, target: ImportTarget): string {
+  const section = header.match(GOOGLE_SECTION);
+  if (section) return section[1];
+  const entry = header.toLowerCase().match(/^address(.*?) (po box|extended address|street|city|region|postal code|country)$/);
+  if (entry) return entry[1];
+  return target.id.split('.')[1];
+}
+
+// Google joins several values of one entry with " ::: "
+function splitValues(value: string): string[] {
+  return value.split(' ::: ').map(part => part.trim()).filter(Boolean);
+}
+
+function createProperty(name: string, value: VCardProperty['value'], types: string[], line: number): VCardProperty {
+  return {
+    name,
+    params: types.length > 0 ? { TYPE: [...new Set(types)] } : {},
+    type: PROPERTY_TYPES[name] || 'text',
+    value,
+    line
+  };
+}
+
+export function csvRowToVCard(headers: string[], row: string[], mapping: ImportMapping, line: number): VCard {
+  const properties: VCardProperty[] = [];
+  const name: string[][] = [[], [], [], [], []];
+  const organization: string[][] = [[], []];
+  const categories: string[] = [];
+  const addresses: { [key: string]: { types: string[]; components: string[][] } } = {};
+  const addressKeys: string[] = [];
+
+  headers.forEach((header, index) => {
+    const target = IMPORT_TARGETS.find(candidate => candidate.id === mapping[index]);
+    const value = (row[index] || '').trim();
+    if (!target || !value) return;
+
+    // Targets without types take them from Google's Type columns; this app's headers
+    // mark preferred entries
+    const types = [
+      ...(target.types?.length ? target.types : getSectionTypes(header, headers, row)),
+      ...(/\(preferred\)/i.test(header) ? ['pref'] : [])
+    ];
+
+    switch (target.property) {
+      case 'N':
+        name[target.component].push(value);
+        break;
+      case 'ORG':
+        organization[target.component].push(value);
+        break;
+      case 'CATEGORIES':
+        // Outlook separates categories with ";". Google's system groups, like
+        // "* myContacts", start with "* ".
+        categories.push(...value.split(/\s*(?:,|;| ::: )\s*/).filter(category => category && !category.startsWith('* ')));
+        break;
+      case 'NICKNAME':
+        properties.push(createProperty('NICKNAME', value.split(/\s*,\s*/).filter(Boolean), [], line));
+        break;
+      case 'ADR': {
+        const key = getAddressKey(header, target);
+        if (!addresses[key]) {
+          addresses[key] = { types: [], components: [[], [], [], [], [], [], []] };
+          addressKeys.push(key);
+        }
+        addresses[key].types.push(...types);
+        addresses[key].components[target.component].push(value);
+        break;
+      }
+      case 'TEL':
+      case 'EMAIL':
+      case 'URL':
+      case 'IMPP': {
+        // Values of X-AIM and similar columns, and of Google's IM sections, have no scheme yet
+        const scheme = target.property === 'IMPP'
+          ? getIMHeaderScheme(header) || getSectionScheme(header, headers, row)
+          : undefined;
+        // Outlook repeats the preferred phone number as Primary Phone
+        splitValues(value)
+          .map(part => (scheme && !/^[a-z][a-z0-9+.-]*:/i.test(part) ? `${scheme}:${part}` : part))
+          .filter(part => !properties.some(property => property.name === target.property && property.value === part))
+          .forEach(part => properties.push(createProperty(target.property, part, types, line)));
+        break;
+      }
+      case 'BDAY':
+      case 'ANNIVERSARY': {
+        const date = parseCSVDate(value);
+        if (date) properties.push(createProperty(target.property, date, [], line));
+        break;
+      }
+      default:
+        properties.push(createProperty(target.property, value, [], line));
+    }
+  });
+
+  if (name.some(component => component.length > 0)) {
+    properties.push(createProperty('N', name.map(component => [component.join(' ')]), [], line));
+  }
+  if (organization.some(component => component.length > 0)) {
+    // An organization without a department has no unit component
+    const components = organization.map(component => [component.join(', ')]);
+    while (components.length > 1 && !components[components.length - 1][0]) components.pop();
+    properties.push(createProperty('ORG', components, [], line));
+  }
+  for (const key of addressKeys) {
+    properties.push(createProperty('ADR', addresses[key].components, addresses[key].types, line));
+  }
+  if (categories.length > 0) properties.push(createProperty('CATEGORIES', [...new Set(categories)], [], line));
+
+  // Properties are written in the order of the targets, not of the columns
+  const order = [...new Set(IMPORT_TARGETS.map(target => target.property))];
+  properties.sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+
+  return { version: '4.0', properties, line };
+}
+
+// Converts every record with at least one mapped value
+export function csvToVCards(headers: string[], records: CSVRecord[], mapping: ImportMapping): VCard[] {
+  return records
+    .map(record => csvRowToVCard(headers, record.fields, mapping, record.line))
+    .filter(card => card.properties.length > 0);
+}
@@ -0,0 +1,104 @@
+// Reading of CSV files exported by address books and spreadsheets: RFC 4180 quoting,
+// any line ending, and whichever delimiter the file uses.
+import { CSVDelimiter, CSV_DELIMITERS } from './csv-dialect';
+
+// Only the first lines are inspected to find the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+
+export interface CSVRecord {
+  fields: string[];
+  // 1-based line the record starts on. Quoted fields with line breaks make a record
+  // span several lines.
+  line: number;
+}
+
+// Splits text into records of fields. Quoted fields may contain delimiters, doubled
+// quotes and line breaks. Empty lines are skipped.
+export function parseCSV(text: string, delimiter: CSVDelimiter): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') records.push({ fields: record, line: recordLine });
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      // "\r\n" counts as one line break
+      if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) endRecord();
+  return records;
+}
+
+// Counts the delimiter in each of the first lines, ignoring quoted text
+function countPerLine(text: string, delimiter: string): number[] {
+  const counts: number[] = [0];
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && counts.length <= DELIMITER_SAMPLE_LINES; i++) {
+    const char = text[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (inQuotes) continue;
+    else if (char === delimiter) counts[counts.length - 1]++;
+    else if (char === '\n') counts.push(0);
+  }
+
+  // The last line may have been cut off or be empty
+  return counts.length > 1 ? counts.slice(0, -1) : counts;
+}
+
+// The delimiter that splits the first lines into the same, largest number of fields.
+// Falls back to a comma.
+export function detectDelimiter(text: string): CSVDelimiter {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const { delimiter } of CSV_DELIMITERS) {
+    const counts = countPerLine(text, delimiter);
+    if (counts[0] === 0) continue;
+    // Lines that disagree with the header make a delimiter less likely
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
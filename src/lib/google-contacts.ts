@@ -0,0 +1,275 @@
+// Projection of vCards onto the CSV schema Google Contacts imports without asking
+// for a column mapping. Repeated values go into numbered sections ("E-mail 1 - Type",
+// "E-mail 1 - Value", "E-mail 2 - Type", ...), labels go into the Type column and a
+// "* " prefix marks the preferred entry.
+import { Contact } from './vcf-converter';
+import {
+  VCard,
+  VCardProperty,
+  capitalize,
+  getComponents,
+  getGroupLabels,
+  getProperties,
+  getText,
+  getTypes,
+  isPreferred,
+  normalizeUid,
+  removeAppleOmittedYear
+} from './vcard-model';
+import { getStructuredName } from './contact-name';
+
+// Single-value columns, in the order Google writes them
+const GOOGLE_BASE_COLUMNS = [
+  'Name', 'Given Name', 'Additional Name', 'Family Name', 'Yomi Name', 'Given Name Yomi',
+  'Additional Name Yomi', 'Family Name Yomi', 'Name Prefix', 'Name Suffix', 'Initials', 'Nickname',
+  'Short Name', 'Maiden Name', 'Birthday', 'Gender', 'Location', 'Billing Information',
+  'Directory Server', 'Mileage', 'Occupation', 'Hobby', 'Sensitivity', 'Priority', 'Subject',
+  'Notes', 'Language', 'Photo', 'Group Membership'
+];
+
+// Numbered sections and their columns, e.g. "Phone 2 - Value"
+const GOOGLE_SECTIONS: { name: string; columns: string[] }[] = [
+  { name: 'E-mail', columns: ['Type', 'Value'] },
+  { name: 'IM', columns: ['Type', 'Service', 'Value'] },
+  { name: 'Phone', columns: ['Type', 'Value'] },
+  {
+    name: 'Address',
+    columns: ['Type', 'Formatted', 'Street', 'City', 'PO Box', 'Region', 'Postal Code', 'Country', 'Extended Address']
+  },
+  {
+    name: 'Organization',
+    columns: ['Type', 'Name', 'Yomi Name', 'Title', 'Department', 'Symbol', 'Location', 'Job Description']
+  },
+  { name: 'Relation', columns: ['Type', 'Value'] },
+  { name: 'Website', columns: ['Type', 'Value'] },
+  { name: 'Event', columns: ['Type', 'Value'] }
+];
+
+// Every contact imported by Google is in "My Contacts"
+const MY_CONTACTS = '* myContacts';
+
+// Google's group separator in Group Membership
+const GROUP_SEPARATOR = ' ::: ';
+
+const GOOGLE_GENDERS: { [sex: string]: string } = {
+  'M': 'male',
+  'F': 'female'
+};
+
+// Instant messaging services by IMPP URI scheme and by legacy X- property
+export const IM_SCHEMES: { [scheme: string]: string } = {
+  'aim': 'AIM',
+  'gtalk': 'Google Talk',
+  'icq': 'ICQ',
+  'msnim': 'MSN',
+  'qq': 'QQ',
+  'sip': 'SIP',
+  'skype': 'Skype',
+  'xmpp': 'Jabber',
+  'ymsgr': 'Yahoo'
+};
+
+const IM_PROPERTIES: { [name: string]: string } = {
+  'X-AIM': 'AIM',
+  'X-GOOGLE-TALK': 'Google Talk',
+  'X-ICQ': 'ICQ',
+  'X-JABBER': 'Jabber',
+  'X-MSN': 'MSN',
+  'X-QQ': 'QQ',
+  'X-SKYPE': 'Skype',
+  'X-YAHOO': 'Yahoo'
+};
+
+// vCard dates may use the basic format (19850412, --0412); Google wants 1985-04-12
+// or --04-12 for dates without a year, including Apple's 1604 placeholder year
+function formatGoogleDate(value: string): string {
+  const date = removeAppleOmittedYear(value.split('T')[0]);
+  const full = date.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (full) return `${full[1]}-${full[2]}-${full[3]}`;
+  const noYear = date.match(/^--(\d{2})-?(\d{2})$/);
+  if (noYear) return `--${noYear[1]}-${noYear[2]}`;
+  return value;
+}
+
+// Google's name for a phone type. Apple labels win over TYPE parameters.
+function getPhoneType(property: VCardProperty, label?: string): string {
+  if (label) return label;
+  const types = getTypes(property);
+  const place = types.includes('work') ? 'Work' : types.includes('home') ? 'Home' : '';
+
+  if (types.includes('fax')) return place ? `${place} Fax` : 'Other Fax';
+  if (types.includes('cell') || types.includes('iphone')) return 'Mobile';
+  if (types.includes('pager')) return 'Pager';
+  if (types.includes('main')) return 'Main';
+  return place || 'Other';
+}
+
+// Home, Work or Other for e-mail, address and website types
+function getPlaceType(property: VCardProperty, label?: string): string {
+  if (label) return label;
+  const types = getTypes(property);
+  if (types.includes('home')) return 'Home';
+  if (types.includes('work')) return 'Work';
+  return 'Other';
+}
+
+function withPreference(type: string, property: VCardProperty): string {
+  return isPreferred(property) ? `* ${type}` : type;
+}
+
+function getIMService(property: VCardProperty): { service: string; value: string } {
+  const value = getText(property);
+  if (IM_PROPERTIES[property.name]) return { service: IM_PROPERTIES[property.name], value };
+
+  const match = value.match(/^([a-z][a-z0-9+.-]*):(.*)$/i);
+  if (!match) return { service: '', value };
+  return { service: IM_SCHEMES[match[1].toLowerCase()] || capitalize(match[1]), value: match[2] };
+}
+
+// A multi-line address the way Google shows it: street lines, then city line, then country
+function formatAddress(components: string[]): string {
+  const [poBox = '', extended = '', street = '', city = '', region = '', postalCode = '', country = ''] = components;
+  return [
+    street,
+    extended,
+    poBox && `PO Box ${poBox}`,
+    [city, [region, postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    country
+  ].filter(Boolean).join('\n');
+}
+
+// One row of Google's CSV. The contact's categories and the KIND:group cards listed in
+// groupNames become its Group Membership labels, after Google's own "* myContacts";
+// RELATED UIDs are shown as the names namesByUid has for them.
+export function vcardToGoogleContact(
+  card: VCard,
+  groupNames: string[] = [],
+  namesByUid: { [uid: string]: string } = {}
+): Contact {
+  const contact: Contact = {};
+  const labels = getGroupLabels(card);
+  const sectionCounts: { [section: string]: number } = {};
+  const getLabel = (property: VCardProperty) => (property.group ? labels[property.group] : undefined);
+
+  // Fills the next numbered entry of a section
+  const addEntry = (section: string, values: { [column: string]: string }) => {
+    const index = (sectionCounts[section] || 0) + 1;
+    sectionCounts[section] = index;
+    for (const [column, value] of Object.entries(values)) {
+      if (value) contact[`${section} ${index} - ${column}`] = value;
+    }
+  };
+
+  const name = getStructuredName(card);
+  const formattedName = getProperties(card, 'FN').map(getText).find(Boolean);
+  contact['Name'] = formattedName || [name.prefix, name.first, name.middle, name.last, name.suffix].filter(Boolean).join(' ');
+  contact['Given Name'] = name.first;
+  contact['Additional Name'] = name.middle;
+  contact['Family Name'] = name.last;
+  contact['Name Prefix'] = name.prefix;
+  contact['Name Suffix'] = name.suffix;
+  contact['Nickname'] = getProperties(card, 'NICKNAME').map(getText).filter(Boolean).join(', ');
+  contact['Notes'] = getProperties(card, 'NOTE').map(getText).filter(Boolean).join('\n\n');
+  contact['Language'] = getProperties(card, 'LANG').map(getText).find(Boolean) || '';
+
+  const birthday = getProperties(card, 'BDAY').map(getText).find(Boolean);
+  if (birthday) contact['Birthday'] = formatGoogleDate(birthday);
+
+  const gender = getProperties(card, 'GENDER')[0];
+  if (gender) {
+    const [sex = '', identity = ''] = getComponents(gender);
+    contact['Gender'] = GOOGLE_GENDERS[sex.toUpperCase()] || identity;
+  }
+
+  // Google can only link photos; inline photos are left out
+  const photo = getProperties(card, 'PHOTO').find(property => property.type === 'uri' && /^https?:/i.test(getText(property)));
+  if (photo) contact['Photo'] = getText(photo);
+
+  const categories = getProperties(card, 'CATEGORIES').flatMap(property => getComponents(property)).filter(Boolean);
+  contact['Group Membership'] = [MY_CONTACTS, ...new Set([...categories, ...groupNames])].join(GROUP_SEPARATOR);
+
+  for (const property of getProperties(card, 'EMAIL')) {
+    const value = getText(property);
+    if (value) addEntry('E-mail', { Type: withPreference(getPlaceType(property, getLabel(property)), property), Value: value });
+  }
+
+  for (const property of card.properties.filter(p => p.name === 'IMPP' || IM_PROPERTIES[p.name])) {
+    const { service, value } = getIMService(property);
+    if (value) addEntry('IM', { Type: getPlaceType(property, getLabel(property)), Service: service, Value: value });
+  }
+
+  for (const property of getProperties(card, 'TEL')) {
+    const value = getText(property).replace(/^tel:/i, '');
+    if (value) addEntry('Phone', { Type: withPreference(getPhoneType(property, getLabel(property)), property), Value: value });
+  }
+
+  for (const property of getProperties(card, 'ADR')) {
+    const components = getComponents(property);
+    if (!components.some(Boolean)) continue;
+    const [poBox = '', extended = '', street = '', city = '', region = '', postalCode = '', country = ''] = components;
+    addEntry('Address', {
+      'Type': withPreference(getPlaceType(property, getLabel(property)), property),
+      'Formatted': property.params.LABEL?.join('\n') || formatAddress(components),
+      'Street': street,
+      'City': city,
+      'PO Box': poBox,
+      'Region': region,
+      'Postal Code': postalCode,
+      'Country': country,
+      'Extended Address': extended
+    });
+  }
+
+  // ORG, TITLE and ROLE are paired up in order; most cards have one of each
+  const organizations = getProperties(card, 'ORG');
+  const titles = getProperties(card, 'TITLE');
+  const roles = getProperties(card, 'ROLE');
+  for (let i = 0; i < Math.max(organizations.length, titles.length, roles.length); i++) {
+    const [organization = '', ...units] = organizations[i] ? getComponents(organizations[i]) : [];
+    addEntry('Organization', {
+      'Name': organization,
+      'Title': titles[i] ? getText(titles[i]) : '',
+      'Department': units.filter(Boolean).join(', '),
+      'Job Description': roles[i] ? getText(roles[i]) : ''
+    });
+  }
+
+  for (const property of card.properties.filter(p => p.name === 'RELATED' || p.name === 'X-ABRELATEDNAMES')) {
+    const value = getText(property);
+    if (!value) continue;
+    const type = getLabel(property) || getTypes(property).filter(t => t !== 'pref').map(capitalize).join(' ');
+    addEntry('Relation', { Type: type, Value: namesByUid[normalizeUid(value)] || value });
+  }
+
+  for (const property of getProperties(card, 'URL')) {
+    const value = getText(property);
+    if (value) addEntry('Website', { Type: getPlaceType(property, getLabel(property)), Value: value });
+  }
+
+  for (const property of card.properties.filter(p => p.name === 'ANNIVERSARY' || p.name === 'X-ABDATE')) {
+    const value = getText(property);
+    if (!value) continue;
+    const type = property.name === 'ANNIVERSARY' ? 'Anniversary' : getLabel(property) || 'Other';
+    addEntry('Event', { Type: type, Value: formatGoogleDate(value) });
+  }
+
+  return contact;
+}
+
+// Google's column order: all single-value columns, then every section with as many
+// numbered entries as the fullest contact needs (at least one)
+export function orderGoogleColumns(fields: Set<string>): string[] {
+  const sectionSizes: { [section: string]: number } = {};
+  for (const field of fields) {
+    const match = field.match(/^(.+) (\d+) - .+$/);
+    if (match) sectionSizes[match[1]] = Math.max(sectionSizes[match[1]] || 0, parseInt(match[2], 10));
+  }
+
+  const columns = [...GOOGLE_BASE_COLUMNS];
+  for (const section of GOOGLE_SECTIONS) {
+    for (let index = 1; index <= Math.max(1, sectionSizes[section.name] || 0); index++) {
+      columns.push(...section.columns.map(column => `${section.name} ${index} - ${column}`));
+    }
+  }
+  return columns;
+}
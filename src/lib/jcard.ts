@@ -0,0 +1,200 @@
+// jCard (RFC 7095), the JSON form of vCard 4.0: ["vcard", [[name, parameters, type,
+// value, ...], ...]]. Cards are written from the vCard model so every property is kept,
+// and jCard files can be read back into the model and converted like a VCF file.
+import {
+  LIST_PROPERTIES,
+  PropertyParameters,
+  STRUCTURED_PROPERTIES,
+  VCard,
+  VCardProperty,
+  VCardValue,
+  VCardValueType,
+  describeCard,
+  getText,
+  getVCard4Parameters,
+  toDataURI
+} from './vcard-model';
+import { ParseDiagnostic, VCardParseResult } from './vcard-parser';
+import { downloadBlob } from './download';
+
+// Parameter values are a string, or an array when there are several
+export interface JCardParameters {
+  [name: string]: string | string[];
+}
+
+export type JCardValue = string | number | boolean | null | JCardValue[];
+
+export type JCardProperty = [string, JCardParameters, string, ...JCardValue[]];
+
+export type JCard = ['vcard', JCardProperty[]];
+
+// jCard types the model has no equivalent for
+const JCARD_VALUE_TYPES: { [type: string]: VCardValueType } = {
+  'date': 'date-and-or-time',
+  'time': 'date-and-or-time',
+  'date-time': 'date-and-or-time'
+};
+
+// RFC 7095 §3.5.3 writes dates and times in the extended format: 1985-04-12, --04-12
+// and T10:22:00 instead of 19850412, --0412 and T102200
+function toExtendedDateTime(value: string): string {
+  const [date, time] = value.split('T');
+  const extendedDate = date
+    .replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3')
+    .replace(/^--(\d{2})(\d{2})$/, '--$1-$2');
+  if (time === undefined) return extendedDate;
+
+  const extendedTime = time.replace(/^(\d{2})(\d{2})(\d{2})?/, (_, hours: string, minutes: string, seconds?: string) => (
+    [hours, minutes, seconds].filter(Boolean).join(':')
+  ));
+  return `${extendedDate}T${extendedTime}`;
+}
+
+function toJCardParameters(property: VCardProperty): JCardParameters {
+  const jcardParams: JCardParameters = {};
+  if (property.group) jcardParams.group = property.group;
+  for (const [name, values] of Object.entries(getVCard4Parameters(property))) {
+    jcardParams[name.toLowerCase()] = values.length === 1 ? values[0] : values;
+  }
+  return jcardParams;
+}
+
+// Structured values are one array of components, each a string or an array of strings;
+// list values are written as separate values after the type
+function toJCardValues(property: VCardProperty): JCardValue[] {
+  const { value } = property;
+  if (typeof value === 'string') {
+    return [property.type === 'date-and-or-time' || property.type === 'timestamp' ? toExtendedDateTime(value) : value];
+  }
+  if (LIST_PROPERTIES.includes(property.name)) return value as string[];
+  return [value.map(component => (Array.isArray(component) && component.length === 1 ? component[0] : component))];
+}
+
+export function toJCard(card: VCard): JCard {
+  const properties: JCardProperty[] = [['version', {}, 'text', '4.0']];
+
+  for (const property of card.properties) {
+    const name = property.name.toLowerCase();
+    if (property.type === 'binary') {
+      properties.push([name, toJCardParameters(property), 'uri', toDataURI(property)]);
+    } else {
+      properties.push([name, toJCardParameters(property), property.type, ...toJCardValues(property)]);
+    }
+  }
+
+  return ['vcard', properties];
+}
+
+// A single card is written as one jCard, several as an array of jCards
+export function writeJCards(cards: VCard[]): string {
+  const jcards = cards.map(toJCard);
+  return JSON.stringify(jcards.length === 1 ? jcards[0] : jcards, null, 2);
+}
+
+export function downloadJCard(jcardContent: string, filename: string): void {
+  downloadBlob(new Blob([jcardContent], { type: 'application/vcard+json;charset=utf-8;' }), filename);
+}
+
+function isJCard(value: unknown): value is JCard {
+  return Array.isArray(value) && value[0] === 'vcard' && Array.isArray(value[1]);
+}
+
+function toText(value: JCardValue): string {
+  if (value === null) return '';
+  return Array.isArray(value) ? value.map(toText).join(',') : String(value);
+}
+
+function toModelParameters(params: JCardParameters): { group?: string; params: PropertyParameters } {
+  const modelParams: PropertyParameters = {};
+  let group: string | undefined;
+
+  for (const [rawName, rawValue] of Object.entries(params || {})) {
+    const name = rawName.toUpperCase();
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).map(value => String(value));
+    if (name === 'GROUP') {
+      group = values[0]?.toLowerCase();
+    } else {
+      modelParams[name] = name === 'TYPE' ? values.map(value => value.toLowerCase()) : values;
+    }
+  }
+
+  return { group, params: modelParams };
+}
+
+function toModelValue(name: string, values: JCardValue[]): VCardValue {
+  if (LIST_PROPERTIES.includes(name)) return values.flatMap(value => (Array.isArray(value) ? value : [value])).map(toText);
+
+  const [first = ''] = values;
+  if (STRUCTURED_PROPERTIES.includes(name) || Array.isArray(first)) {
+    const components = Array.isArray(first) ? first : [first];
+    return components.map(component => (Array.isArray(component) ? component.map(toText) : [toText(component)]));
+  }
+  return values.map(toText).join(',');
+}
+
+function toModelProperty(property: JCardProperty, line: number): VCardProperty {
+  const [rawName, params, rawType, ...values] = property;
+  const name = rawName.toUpperCase();
+  const type = rawType.toLowerCase();
+  const valueType: VCardValueType = ['text', 'uri', 'date-and-or-time', 'timestamp', 'language-tag'].includes(type)
+    ? type as VCardValueType
+    : JCARD_VALUE_TYPES[type] || 'text';
+
+  return { ...toModelParameters(params), name, type: valueType, value: toModelValue(name, values), line };
+}
+
+function isProperty(value: unknown): value is JCardProperty {
+  return Array.isArray(value) &&
+    value.length >= 4 &&
+    typeof value[0] === 'string' &&
+    typeof value[1] === 'object' && value[1] !== null && !Array.isArray(value[1]) &&
+    typeof value[2] === 'string';
+}
+
+// Reads a jCard, or an array of jCards, into the vCard model. JSON has no lines, so
+// cards and their diagnostics are numbered by the card's position instead.
+export function parseJCards(jcardContent: string): VCardParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(jcardContent.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const jcards = isJCard(json) ? [json] : json;
+  if (!Array.isArray(jcards) || !jcards.every(isJCard)) {
+    throw new Error('The file is not a jCard: expected ["vcard", [...]] or an array of them');
+  }
+
+  const diagnostics: ParseDiagnostic[] = [];
+  const cards = jcards.map(([, properties], index) => {
+    const position = index + 1;
+    const card: VCard = { version: '4.0', properties: [], line: position };
+    const cardDiagnostics: ParseDiagnostic[] = [];
+
+    properties.forEach((property, propertyIndex) => {
+      if (!isProperty(property)) {
+        cardDiagnostics.push({
+          severity: 'warning',
+          code: 'malformed-line',
+          line: position,
+          message: `Property ${propertyIndex + 1} is not a [name, parameters, type, value] array and was skipped`
+        });
+        return;
+      }
+
+      const modelProperty = toModelProperty(property, position);
+      if (modelProperty.name === 'VERSION') {
+        card.version = getText(modelProperty) || card.version;
+      } else {
+        card.properties.push(modelProperty);
+      }
+    });
+
+    const contact = describeCard(card, position);
+    diagnostics.push(...cardDiagnostics.map(diagnostic => ({ ...diagnostic, contact })));
+    return card;
+  });
+
+  return { cards, diagnostics };
+}
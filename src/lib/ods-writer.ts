@@ -0,0 +1,174 @@
+// OpenDocument spreadsheet (.ods) export for LibreOffice and other ODF applications.
+// Built from the same sheets as the XLSX export: phone and postal code columns are
+// text, ISO dates become date cells and the header row is frozen.
+import { Contact, ContactGroup, OutputProfile } from './vcf-converter';
+import { ColumnLayout } from './column-mapping';
+import { ColumnKind, Sheet, createContactsSheet, createGroupsSheet, escapeXML, getSpreadsheetDate } from './spreadsheet';
+import { removeAppleOmittedYear } from './vcard-model';
+import { createZip } from './zip';
+
+export const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+// Approximate width of a character of the default font
+const CHARACTER_WIDTH_CM = 0.22;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+  'xmlns:config="urn:oasis:names:tc:opendocument:xmlns:config:1.0"'
+].join(' ');
+
+// Cell styles for the header, text ("@") and date cells
+const CELL_STYLES =
+  '<number:text-style style:name="N-text"><number:text-content/></number:text-style>' +
+  '<number:date-style style:name="N-date">' +
+  '<number:year number:style="long"/><number:text>-</number:text>' +
+  '<number:month number:style="long"/><number:text>-</number:text>' +
+  '<number:day number:style="long"/>' +
+  '</number:date-style>' +
+  '<style:style style:name="ce-header" style:family="table-cell"><style:text-properties fo:font-weight="bold"/></style:style>' +
+  '<style:style style:name="ce-text" style:family="table-cell" style:data-style-name="N-text"/>' +
+  '<style:style style:name="ce-date" style:family="table-cell" style:data-style-name="N-date"/>';
+
+// Runs of spaces collapse in ODF text unless written as <text:s/>
+function formatParagraphs(value: string): string {
+  return value
+    .split(/\r\n|\r|\n/)
+    .map(line => {
+      const text = escapeXML(line)
+        .replace(/\t/g, '<text:tab/>')
+        .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+        .replace(/^ /, '<text:s/>');
+      return `<text:p>${text}</text:p>`;
+    })
+    .join('');
+}
+
+function formatTextCell(value: string, style: string): string {
+  return `<table:table-cell${style} office:value-type="string">${formatParagraphs(value)}</table:table-cell>`;
+}
+
+function formatCell(value: string, kind: ColumnKind): string {
+  if (!value) return '<table:table-cell/>';
+
+  if (kind === 'date') {
+    const date = getSpreadsheetDate(value);
+    if (date) {
+      const isoDate = [
+        String(date.year).padStart(4, '0'),
+        String(date.month).padStart(2, '0'),
+        String(date.day).padStart(2, '0')
+      ].join('-');
+      return `<table:table-cell table:style-name="ce-date" office:value-type="date" office:date-value="${isoDate}">` +
+        `<text:p>${isoDate}</text:p></table:table-cell>`;
+    }
+    // Everything else getSpreadsheetDate rejects is text, like the XLSX export
+    return formatTextCell(removeAppleOmittedYear(value), ' table:style-name="ce-text"');
+  }
+  if (kind === 'number' && /^\d+$/.test(value)) {
+    return `<table:table-cell office:value-type="float" office:value="${value}"><text:p>${value}</text:p></table:table-cell>`;
+  }
+
+  return formatTextCell(value, kind === 'text' ? ' table:style-name="ce-text"' : '');
+}
+
+function getColumnStyleName(sheetIndex: number, columnIndex: number): string {
+  return `co${sheetIndex + 1}-${columnIndex + 1}`;
+}
+
+function createColumnStyles(sheets: Sheet[]): string {
+  return sheets
+    .flatMap((sheet, sheetIndex) => sheet.columns.map((column, columnIndex) => (
+      `<style:style style:name="${getColumnStyleName(sheetIndex, columnIndex)}" style:family="table-column">` +
+      `<style:table-column-properties style:column-width="${(column.width * CHARACTER_WIDTH_CM).toFixed(2)}cm"/>` +
+      '</style:style>'
+    )))
+    .join('');
+}
+
+function createTable(sheet: Sheet, sheetIndex: number): string {
+  const columns = sheet.columns
+    .map((column, index) => {
+      const cellStyle = column.kind === 'text' ? ' table:default-cell-style-name="ce-text"' : '';
+      return `<table:table-column table:style-name="${getColumnStyleName(sheetIndex, index)}"${cellStyle}/>`;
+    })
+    .join('');
+
+  const header = sheet.columns
+    .map(column => `<table:table-cell table:style-name="ce-header" office:value-type="string">${formatParagraphs(column.header)}</table:table-cell>`)
+    .join('');
+
+  const rows = sheet.rows
+    .map(row => `<table:table-row>${row.map((value, index) => formatCell(value, sheet.columns[index].kind)).join('')}</table:table-row>`)
+    .join('');
+
+  return `<table:table table:name="${escapeXML(sheet.name)}">${columns}` +
+    `<table:table-header-rows><table:table-row>${header}</table:table-row></table:table-header-rows>` +
+    `${rows}</table:table>`;
+}
+
+// LibreOffice keeps frozen rows in the view settings rather than in the content
+function createSettings(sheets: Sheet[]): string {
+  const tables = sheets
+    .map(sheet => `<config:config-item-map-entry config:name="${escapeXML(sheet.name)}">` +
+      '<config:config-item config:name="HorizontalSplitMode" config:type="short">0</config:config-item>' +
+      '<config:config-item config:name="VerticalSplitMode" config:type="short">2</config:config-item>' +
+      '<config:config-item config:name="VerticalSplitPosition" config:type="int">1</config:config-item>' +
+      '<config:config-item config:name="ActiveSplitRange" config:type="short">2</config:config-item>' +
+      '<config:config-item config:name="PositionBottom" config:type="int">1</config:config-item>' +
+      '</config:config-item-map-entry>')
+    .join('');
+
+  return XML_DECLARATION +
+    `<office:document-settings ${NAMESPACES} office:version="1.2"><office:settings>` +
+    '<config:config-item-set config:name="ooo:view-settings">' +
+    '<config:config-item-map-indexed config:name="Views"><config:config-item-map-entry>' +
+    '<config:config-item config:name="ViewId" config:type="string">view1</config:config-item>' +
+    `<config:config-item-map-named config:name="Tables">${tables}</config:config-item-map-named>` +
+    '</config:config-item-map-entry></config:config-item-map-indexed>' +
+    '</config:config-item-set>' +
+    '</office:settings></office:document-settings>';
+}
+
+function createPackage(sheets: Sheet[]): Blob {
+  const content = XML_DECLARATION +
+    `<office:document-content ${NAMESPACES} office:version="1.2">` +
+    `<office:automatic-styles>${CELL_STYLES}${createColumnStyles(sheets)}</office:automatic-styles>` +
+    `<office:body><office:spreadsheet>${sheets.map(createTable).join('')}</office:spreadsheet></office:body>` +
+    '</office:document-content>';
+
+  const manifest = XML_DECLARATION +
+    '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">' +
+    `<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${ODS_MIME_TYPE}"/>` +
+    '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>' +
+    '<manifest:file-entry manifest:full-path="settings.xml" manifest:media-type="text/xml"/>' +
+    '</manifest:manifest>';
+
+  // The mimetype entry has to come first, uncompressed, so the format can be recognized
+  const zip = createZip([
+    { path: 'mimetype', data: ODS_MIME_TYPE },
+    { path: 'META-INF/manifest.xml', data: manifest },
+    { path: 'content.xml', data: content },
+    { path: 'settings.xml', data: createSettings(sheets) }
+  ]);
+  return new Blob([zip], { type: ODS_MIME_TYPE });
+}
+
+// Packs the same sheets as convertToXLSX into an .ods file: contacts first, then the
+// groups table if groups are given
+export function convertToODS(
+  contacts: Contact[],
+  profile: OutputProfile = 'generic',
+  layout?: ColumnLayout,
+  groups?: ContactGroup[]
+): Blob {
+  const sheets = [createContactsSheet(contacts, profile, layout)];
+  if (groups) sheets.push(createGroupsSheet(contacts, groups));
+  return createPackage(sheets);
+}
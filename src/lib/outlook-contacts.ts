@@ -0,0 +1,261 @@
+// Projection of vCards onto the fixed columns of Outlook's CSV import. Outlook has a
+// slot per kind of phone number, three e-mail addresses and three addresses; values
+// are routed into slots by their TYPE parameters (or Apple labels), and whatever
+// doesn't fit is written into Notes so nothing is lost.
+import { Contact } from './vcf-converter';
+import {
+  VCard,
+  VCardProperty,
+  capitalize,
+  getComponents,
+  getGroupLabels,
+  getProperties,
+  getText,
+  getTypes,
+  isPreferred,
+  normalizeUid,
+  removeAppleOmittedYear
+} from './vcard-model';
+import { getStructuredName } from './contact-name';
+
+// The columns of a CSV exported by Outlook, in its order
+export const OUTLOOK_COLUMNS = [
+  'Title', 'First Name', 'Middle Name', 'Last Name', 'Suffix', 'Company', 'Department', 'Job Title',
+  'Business Street', 'Business Street 2', 'Business Street 3', 'Business City', 'Business State',
+  'Business Postal Code', 'Business Country/Region',
+  'Home Street', 'Home Street 2', 'Home Street 3', 'Home City', 'Home State', 'Home Postal Code',
+  'Home Country/Region',
+  'Other Street', 'Other Street 2', 'Other Street 3', 'Other City', 'Other State', 'Other Postal Code',
+  'Other Country/Region',
+  "Assistant's Phone", 'Business Fax', 'Business Phone', 'Business Phone 2', 'Callback', 'Car Phone',
+  'Company Main Phone', 'Home Fax', 'Home Phone', 'Home Phone 2', 'ISDN', 'Mobile Phone', 'Other Fax',
+  'Other Phone', 'Pager', 'Primary Phone', 'Radio Phone', 'TTY/TDD Phone', 'Telex',
+  'Account', 'Anniversary', "Assistant's Name", 'Billing Information', 'Birthday',
+  'Business Address PO Box', 'Categories', 'Children', 'Directory Server',
+  'E-mail Address', 'E-mail Type', 'E-mail Display Name',
+  'E-mail 2 Address', 'E-mail 2 Type', 'E-mail 2 Display Name',
+  'E-mail 3 Address', 'E-mail 3 Type', 'E-mail 3 Display Name',
+  'Gender', 'Government ID Number', 'Hobby', 'Home Address PO Box', 'Initials', 'Internet Free Busy',
+  'Keywords', 'Language', 'Location', "Manager's Name", 'Mileage', 'Notes', 'Office Location',
+  'Organizational ID Number', 'Other Address PO Box', 'Priority', 'Private', 'Profession', 'Referred By',
+  'Sensitivity', 'Spouse', 'User 1', 'User 2', 'User 3', 'User 4', 'Web Page'
+];
+
+// Phone slots to try, in order, for each kind of number
+const PHONE_SLOTS: { kind: string; slots: string[] }[] = [
+  { kind: 'assistant', slots: ["Assistant's Phone"] },
+  { kind: 'callback', slots: ['Callback'] },
+  { kind: 'car', slots: ['Car Phone'] },
+  { kind: 'isdn', slots: ['ISDN'] },
+  { kind: 'radio', slots: ['Radio Phone'] },
+  { kind: 'telex', slots: ['Telex'] },
+  { kind: 'textphone', slots: ['TTY/TDD Phone'] },
+  { kind: 'pager', slots: ['Pager'] },
+  { kind: 'main', slots: ['Company Main Phone'] },
+  { kind: 'cell', slots: ['Mobile Phone'] },
+  { kind: 'work', slots: ['Business Phone', 'Business Phone 2'] },
+  { kind: 'home', slots: ['Home Phone', 'Home Phone 2'] }
+];
+
+// Words in TYPE parameters and Apple labels that name a kind of phone number
+const PHONE_KINDS: { [word: string]: string } = {
+  'assistant': 'assistant',
+  'x-assistant': 'assistant',
+  'callback': 'callback',
+  'car': 'car',
+  'isdn': 'isdn',
+  'radio': 'radio',
+  'telex': 'telex',
+  'textphone': 'textphone',
+  'tty': 'textphone',
+  'pager': 'pager',
+  'main': 'main',
+  'cell': 'cell',
+  'mobile': 'cell',
+  'iphone': 'cell',
+  'work': 'work',
+  'home': 'home',
+  'fax': 'fax'
+};
+
+const ADDRESS_SLOTS: { [kind: string]: string } = {
+  'work': 'Business',
+  'home': 'Home',
+  'other': 'Other'
+};
+
+const EMAIL_SLOTS = ['E-mail', 'E-mail 2', 'E-mail 3'];
+
+const OUTLOOK_GENDERS: { [sex: string]: string } = {
+  'M': 'Male',
+  'F': 'Female'
+};
+
+// Outlook reads ISO dates; dates without a year, including Apple's 1604 placeholder
+// year, have no column and go to Notes
+function formatOutlookDate(value: string): string | null {
+  const match = removeAppleOmittedYear(value.split('T')[0]).match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// How an overflowing value is introduced in Notes, e.g. "Work Phone: ..."
+function describe(property: VCardProperty, noun: string, label?: string): string {
+  if (label) return label;
+  const types = getTypes(property).filter(type => !['pref', 'voice', 'internet'].includes(type));
+  return [...types.map(capitalize), noun].join(' ');
+}
+
+// The kinds named by a property's TYPE parameters and its Apple label
+function getKinds(property: VCardProperty, label?: string): string[] {
+  const words = [...getTypes(property), ...(label ? label.toLowerCase().split(/\s+/) : [])];
+  return words.map(word => PHONE_KINDS[word]).filter(Boolean);
+}
+
+function getPhoneSlots(kinds: string[]): string[] {
+  if (kinds.includes('fax')) {
+    if (kinds.includes('work')) return ['Business Fax'];
+    if (kinds.includes('home')) return ['Home Fax'];
+    return ['Other Fax'];
+  }
+  const slot = PHONE_SLOTS.find(candidate => kinds.includes(candidate.kind));
+  return slot ? slot.slots : ['Other Phone'];
+}
+
+// One row of Outlook's CSV, with whatever has no slot collected in Notes. Outlook has
+// no groups of its own, so groupNames are added to Categories; a RELATED UID becomes
+// the related contact's name from namesByUid.
+export function vcardToOutlookContact(
+  card: VCard,
+  groupNames: string[] = [],
+  namesByUid: { [uid: string]: string } = {}
+): Contact {
+  const contact: Contact = {};
+  const labels = getGroupLabels(card);
+  const overflow: string[] = [];
+  const getLabel = (property: VCardProperty) => (property.group ? labels[property.group] : undefined);
+
+  // Fills the first free slot, or adds the value to Notes when all are taken
+  const fill = (slots: string[], value: string, description: string) => {
+    const slot = slots.find(candidate => !contact[candidate]);
+    if (slot) contact[slot] = value;
+    else overflow.push(`${description}: ${value}`);
+  };
+
+  const name = getStructuredName(card);
+  contact['Title'] = name.prefix;
+  contact['First Name'] = name.first;
+  contact['Middle Name'] = name.middle;
+  contact['Last Name'] = name.last;
+  contact['Suffix'] = name.suffix;
+
+  const [organization] = getProperties(card, 'ORG');
+  if (organization) {
+    const [company = '', ...units] = getComponents(organization);
+    contact['Company'] = company;
+    contact['Department'] = units.filter(Boolean).join(', ');
+  }
+  contact['Job Title'] = getProperties(card, 'TITLE').map(getText).find(Boolean) || '';
+  contact['Profession'] = getProperties(card, 'ROLE').map(getText).find(Boolean) || '';
+  contact['Language'] = getProperties(card, 'LANG').map(getText).find(Boolean) || '';
+
+  // The preferred number goes first, so it gets the first slot of its kind
+  const phones = getProperties(card, 'TEL').sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+  for (const property of phones) {
+    const value = getText(property).replace(/^tel:/i, '');
+    if (!value) continue;
+    const label = getLabel(property);
+    fill(getPhoneSlots(getKinds(property, label)), value, describe(property, 'Phone', label));
+    if (isPreferred(property) && !contact['Primary Phone']) contact['Primary Phone'] = value;
+  }
+
+  const emails = getProperties(card, 'EMAIL').sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)));
+  const displayName = [name.first, name.last].filter(Boolean).join(' ');
+  for (const property of emails) {
+    const value = getText(property);
+    if (!value) continue;
+    const slot = EMAIL_SLOTS.find(candidate => !contact[`${candidate} Address`]);
+    if (!slot) {
+      overflow.push(`${describe(property, 'E-mail', getLabel(property))}: ${value}`);
+      continue;
+    }
+    contact[`${slot} Address`] = value;
+    contact[`${slot} Type`] = 'SMTP';
+    contact[`${slot} Display Name`] = displayName ? `${displayName} (${value})` : value;
+  }
+
+  for (const property of getProperties(card, 'ADR')) {
+    const components = getComponents(property);
+    if (!components.some(Boolean)) continue;
+    const [poBox = '', extended = '', street = '', city = '', region = '', postalCode = '', country = ''] = components;
+
+    const types = [...getTypes(property), ...(getLabel(property) || '').toLowerCase().split(/\s+/)];
+    const kind = types.includes('work') ? 'work' : types.includes('home') ? 'home' : 'other';
+    const prefix = ADDRESS_SLOTS[kind];
+    if (contact[`${prefix} City`] || contact[`${prefix} Street`]) {
+      overflow.push(`${describe(property, 'Address', getLabel(property))}: ${components.filter(Boolean).join(', ')}`);
+      continue;
+    }
+
+    // Outlook has three street lines; the extended address goes after the street
+    const streetLines = [...street.split('\n'), extended].filter(Boolean);
+    contact[`${prefix} Street`] = streetLines[0] || '';
+    contact[`${prefix} Street 2`] = streetLines[1] || '';
+    contact[`${prefix} Street 3`] = streetLines.slice(2).join(', ');
+    contact[`${prefix} City`] = city;
+    contact[`${prefix} State`] = region;
+    contact[`${prefix} Postal Code`] = postalCode;
+    contact[`${prefix} Country/Region`] = country;
+    contact[`${prefix} Address PO Box`] = poBox;
+  }
+
+  for (const property of getProperties(card, 'URL')) {
+    const value = getText(property);
+    if (value) fill(['Web Page'], value, describe(property, 'Website', getLabel(property)));
+  }
+
+  for (const property of card.properties.filter(p => p.name === 'RELATED' || p.name === 'X-ABRELATEDNAMES')) {
+    const value = getText(property);
+    if (!value) continue;
+    const relatedName = namesByUid[normalizeUid(value)] || value;
+    const kinds = [...getTypes(property), ...(getLabel(property) || '').toLowerCase().split(/\s+/)];
+
+    if (kinds.includes('spouse')) fill(['Spouse'], relatedName, 'Spouse');
+    else if (kinds.includes('manager')) fill(["Manager's Name"], relatedName, 'Manager');
+    else if (kinds.includes('assistant')) fill(["Assistant's Name"], relatedName, 'Assistant');
+    else if (kinds.includes('child')) contact['Children'] = [contact['Children'], relatedName].filter(Boolean).join(', ');
+    else overflow.push(`${getLabel(property) || 'Related'}: ${relatedName}`);
+  }
+
+  for (const [propertyName, column] of [['BDAY', 'Birthday'], ['ANNIVERSARY', 'Anniversary']]) {
+    const value = getProperties(card, propertyName).map(getText).find(Boolean);
+    if (!value) continue;
+    const date = formatOutlookDate(value);
+    if (date) contact[column] = date;
+    else overflow.push(`${column}: ${removeAppleOmittedYear(value)}`);
+  }
+
+  const gender = getProperties(card, 'GENDER')[0];
+  if (gender) {
+    const [sex = ''] = getComponents(gender);
+    contact['Gender'] = OUTLOOK_GENDERS[sex.toUpperCase()] || 'Unspecified';
+  }
+
+  const categories = getProperties(card, 'CATEGORIES').flatMap(property => getComponents(property)).filter(Boolean);
+  contact['Categories'] = [...new Set([...categories, ...groupNames])].join(';');
+
+  // Values Outlook has no column for
+  for (const property of getProperties(card, 'NICKNAME')) {
+    if (getText(property)) overflow.push(`Nickname: ${getText(property)}`);
+  }
+  for (const property of getProperties(card, 'IMPP')) {
+    if (getText(property)) overflow.push(`${getLabel(property) || 'IM'}: ${getText(property)}`);
+  }
+  for (const property of getProperties(card, 'X-ABDATE')) {
+    if (getText(property)) overflow.push(`${getLabel(property) || 'Date'}: ${getText(property)}`);
+  }
+
+  const notes = getProperties(card, 'NOTE').map(getText).filter(Boolean);
+  contact['Notes'] = [...notes, ...overflow].join('\n');
+
+  return contact;
+}
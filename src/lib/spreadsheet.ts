@@ -0,0 +1,157 @@
+// Workbook model shared by the spreadsheet writers: sheets with typed, sized columns
+// built from the converted contacts, so phone numbers keep their leading zeros and
+// birthdays become real dates.
+import { Contact, ContactGroup, OutputProfile, getColumns } from './vcf-converter';
+import { ColumnLayout, applyLayout } from './column-mapping';
+
+// "text" columns are formatted as text so spreadsheet applications never turn them
+// into numbers, "date" cells hold ISO dates as dates and "number" cells hold counts
+export type ColumnKind = 'general' | 'text' | 'date' | 'number';
+
+export interface SheetColumn {
+  header: string;
+  kind: ColumnKind;
+  // Width in characters
+  width: number;
+}
+
+export interface Sheet {
+  name: string;
+  columns: SheetColumn[];
+  rows: string[][];
+}
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Excel's serial numbers are only right from 1900-03-01 on, as it counts 1900-02-29
+const FIRST_SPREADSHEET_DATE = Date.UTC(1900, 2, 1);
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+// Headers of all profiles: "Phone Cell", "Phone 1 - Value", "Business Fax", "Home Postal Code"
+const TEXT_COLUMNS = /\b(phone|fax|pager|mobile|isdn|telex|callback|postal code|zip|po box)\b/i;
+const DATE_COLUMNS = /\b(birthday|anniversary)\b|^date( \d+)?$|^event \d+ - value$/i;
+
+export function getColumnKind(field: string): ColumnKind {
+  if (DATE_COLUMNS.test(field)) return 'date';
+  if (TEXT_COLUMNS.test(field)) return 'text';
+  return 'general';
+}
+
+// Full ISO 8601 dates (1985-04-12 or 19850412, optionally with a time) that exist in
+// the calendar, so 2001-02-31 is rejected. Dates without a year, like --04-12, have no
+// spreadsheet equivalent.
+export function parseISODate(value: string): CalendarDate | null {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T.*)?$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(part => parseInt(part, 10));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+// The date a date cell can hold, or null for values that are written as text: dates
+// without a year (including Apple's 1604 placeholder) and dates before 1900-03-01
+export function getSpreadsheetDate(value: string): CalendarDate | null {
+  const date = parseISODate(value);
+  if (!date || Date.UTC(date.year, date.month - 1, date.day) < FIRST_SPREADSHEET_DATE) return null;
+  return date;
+}
+
+// Escapes text for the XML of a workbook and drops the control characters XML can't contain
+export function escapeXML(text: string): string {
+  return Array.from(text)
+    .filter(char => char.charCodeAt(0) >= 32 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getColumnWidth(header: string, values: string[]): number {
+  let width = header.length;
+  for (const value of values) {
+    for (const line of value.split('\n')) width = Math.max(width, line.length);
+  }
+  return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width + 2));
+}
+
+function createSheet(name: string, headers: string[], kinds: ColumnKind[], rows: string[][]): Sheet {
+  return {
+    name,
+    columns: headers.map((header, index) => ({
+      header,
+      kind: kinds[index],
+      width: getColumnWidth(header, rows.map(row => row[index]))
+    })),
+    rows
+  };
+}
+
+// A merged column keeps its fields' kind only if they all share it
+function getLayoutColumnKind(sources: string[]): ColumnKind {
+  const kinds = new Set(sources.map(getColumnKind));
+  return kinds.size === 1 ? [...kinds][0] : 'general';
+}
+
+export function createContactsSheet(
+  contacts: Contact[],
+  profile: OutputProfile = 'generic',
+  layout?: ColumnLayout
+): Sheet {
+  if (layout) {
+    const headers = layout.columns.map(column => column.header);
+    const rows = applyLayout(contacts, layout).map(contact => headers.map(header => contact[header] || ''));
+    return createSheet('Contacts', headers, layout.columns.map(column => getLayoutColumnKind(column.sources)), rows);
+  }
+
+  const fields = getColumns(contacts, profile);
+  const rows = contacts.map(contact => fields.map(field => contact[field] || ''));
+  return createSheet('Contacts', fields, fields.map(getColumnKind), rows);
+}
+
+function getContactName(contact: Contact): string {
+  return contact['Display Name'] ||
+    contact['Name'] ||
+    [contact['First Name'], contact['Last Name']].filter(Boolean).join(' ');
+}
+
+// Categories of a contact in any profile: "Categories" (this app and Outlook, which
+// uses ";") or Google's "Group Membership", whose system groups start with "* "
+function getCategories(contact: Contact): string[] {
+  return Object.keys(contact)
+    .filter(field => /^Categories( \d+)?$/.test(field) || field === 'Group Membership')
+    .flatMap(field => contact[field].split(/\s*(?:,|;| ::: )\s*/))
+    .filter(category => category && !category.startsWith('* '));
+}
+
+// Lists the group cards of the file and the categories used by its contacts
+export function createGroupsSheet(contacts: Contact[], groups: ContactGroup[]): Sheet {
+  const rows = groups.map(group => [
+    group.name,
+    'Group',
+    String(group.members.length),
+    group.memberNames.filter(Boolean).join('; ')
+  ]);
+
+  const categoryMembers: { [category: string]: string[] } = {};
+  for (const contact of contacts) {
+    for (const category of new Set(getCategories(contact))) {
+      if (!categoryMembers[category]) categoryMembers[category] = [];
+      categoryMembers[category].push(getContactName(contact));
+    }
+  }
+  for (const [category, members] of Object.entries(categoryMembers)) {
+    // Groups already count as categories of their members in the Google and Outlook profiles
+    if (groups.some(group => group.name === category)) continue;
+    rows.push([category, 'Category', String(members.length), members.filter(Boolean).join('; ')]);
+  }
+
+  return createSheet('Groups', ['Name', 'Kind', 'Members', 'Member Names'], ['general', 'general', 'number', 'general'], rows);
+}
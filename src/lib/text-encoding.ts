@@ -0,0 +1,209 @@
+// Detects the text encoding of uploaded files. Phones and desktop address books export
+// contacts as UTF-8, UTF-16 (Outlook) or a legacy code page (older phones), and
+// File.text() would always decode them as UTF-8.
+
+export type EncodingSource = 'bom' | 'utf-8' | 'charset-parameter' | 'heuristic';
+
+export interface EncodingGuess {
+  // WHATWG encoding label accepted by TextDecoder
+  encoding: string;
+  // How the encoding was determined, from most to least reliable
+  source: EncodingSource;
+}
+
+export const SUPPORTED_ENCODINGS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Western (Windows-1252)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'koi8-r', label: 'Cyrillic (KOI8-R)' },
+  { value: 'iso-8859-7', label: 'Greek (ISO-8859-7)' },
+  { value: 'shift_jis', label: 'Japanese (Shift_JIS)' },
+  { value: 'euc-jp', label: 'Japanese (EUC-JP)' },
+  { value: 'gb18030', label: 'Chinese Simplified (GB18030)' },
+  { value: 'big5', label: 'Chinese Traditional (Big5)' },
+  { value: 'euc-kr', label: 'Korean (EUC-KR)' }
+];
+
+// Only the start of a file is inspected; contact files are homogeneous
+const SAMPLE_SIZE = 64 * 1024;
+
+// Legacy encodings tried by the heuristic, in order of preference when scores tie
+const CANDIDATE_ENCODINGS = [
+  'windows-1252', 'windows-1250', 'windows-1251', 'koi8-r', 'iso-8859-7',
+  'shift_jis', 'euc-jp', 'gb18030', 'big5', 'euc-kr'
+];
+
+function isCyrillic(code: number): boolean {
+  return code >= 0x0400 && code <= 0x04ff;
+}
+
+function isLatinLetter(code: number): boolean {
+  return code >= 0x00c0 && code <= 0x024f && code !== 0x00d7 && code !== 0x00f7;
+}
+
+// Letters Windows-1250 puts in 0x80-0xBF, where Windows-1252 has symbols like ³, ¹ and ¿.
+// Its other letters (č, ę, ř) share their bytes with Western letters (è, ê, ø).
+const CENTRAL_EUROPEAN_LETTERS = 'ŚŤŹśťźŁĄŞŻłąşżĽľ';
+
+function isGreek(code: number): boolean {
+  return code >= 0x0370 && code <= 0x03ff;
+}
+
+function isKana(code: number): boolean {
+  return code >= 0x3040 && code <= 0x30ff;
+}
+
+function isHanzi(code: number): boolean {
+  return code >= 0x4e00 && code <= 0x9fff;
+}
+
+function isHangul(code: number): boolean {
+  return code >= 0xac00 && code <= 0xd7af;
+}
+
+// Characters that show up when bytes are decoded with the wrong code page: the
+// replacement character, C1 controls, half-width katakana, private use and box drawing
+function isSuspicious(code: number): boolean {
+  return code === 0xfffd ||
+    (code >= 0x0080 && code <= 0x009f) ||
+    (code >= 0xff61 && code <= 0xff9f) ||
+    (code >= 0xe000 && code <= 0xf8ff) ||
+    (code >= 0x2500 && code <= 0x259f);
+}
+
+// Scores how plausible a decoding is for the given encoding, per non-ASCII character.
+// Each encoding is rewarded for the script it exists to encode. Windows-1251 and
+// KOI8-R both turn any byte into Cyrillic, but real text is mostly lowercase and
+// the two code pages swap the lowercase and uppercase ranges. Accented Latin letters
+// sit between plain ASCII letters in real text, while other scripts decoded as
+// Windows-1252 produce long runs of them. The other way round, Latin text decoded as
+// Cyrillic or Greek leaves single letters inside ASCII words ("Wrуbel"), which real text
+// doesn't. Windows-1250 would tie with Windows-1252 if it weren't also rewarded for the
+// letters only it produces.
+function scoreDecoding(text: string, encoding: string): number {
+  let score = 0;
+  let nonAscii = 0;
+  let previousCode = 0;
+
+  for (const char of text) {
+    const code = char.codePointAt(0);
+    const followsAscii = previousCode < 0x80;
+    const followsAsciiLetter = (previousCode | 0x20) >= 0x61 && (previousCode | 0x20) <= 0x7a;
+    previousCode = code;
+    if (code < 0x80) continue;
+    nonAscii++;
+
+    if (isSuspicious(code)) {
+      score -= 5;
+    } else if (encoding === 'windows-1251' || encoding === 'koi8-r') {
+      if (isCyrillic(code) && followsAsciiLetter) score -= 1;
+      else if (isCyrillic(code)) score += char === char.toLowerCase() ? 2 : 1;
+    } else if (encoding === 'iso-8859-7') {
+      if (isGreek(code) && followsAsciiLetter) score -= 1;
+      else if (isGreek(code)) score += char === char.toLowerCase() ? 2 : 1;
+    } else if (encoding === 'windows-1250' && CENTRAL_EUROPEAN_LETTERS.includes(char)) {
+      score += 3;
+    } else if (encoding === 'windows-1252' || encoding === 'windows-1250') {
+      if (isLatinLetter(code)) score += followsAscii ? 2 : -1;
+    } else if (encoding === 'shift_jis' || encoding === 'euc-jp') {
+      if (isKana(code)) score += 3;
+      else if (isHanzi(code)) score += 1;
+    } else if (encoding === 'euc-kr') {
+      if (isHangul(code)) score += 3;
+    } else if (isHanzi(code)) {
+      score += 2;
+    }
+  }
+
+  return nonAscii === 0 ? 0 : score / nonAscii;
+}
+
+function decodeStrict(bytes: Uint8Array, encoding: string): string | null {
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return null;
+  }
+}
+
+function detectUtf16(bytes: Uint8Array): string | null {
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const length = Math.min(bytes.length, SAMPLE_SIZE) & ~1;
+
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  // Mostly-ASCII text has a zero in every other byte
+  const pairs = length / 2;
+  if (pairs === 0) return null;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+export function detectEncoding(bytes: Uint8Array): EncodingGuess {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', source: 'bom' };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', source: 'bom' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', source: 'bom' };
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return { encoding: utf16, source: 'heuristic' };
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  if (decodeStrict(sample, 'utf-8') !== null) return { encoding: 'utf-8', source: 'utf-8' };
+
+  // vCard 2.1 files often name their code page in CHARSET parameters
+  const asciiText = new TextDecoder('windows-1252').decode(sample);
+  const charsetMatch = asciiText.match(/CHARSET=["']?([\w-]+)/i);
+  const declared = charsetMatch && charsetMatch[1].toLowerCase();
+  if (declared && declared !== 'utf-8' && decodeStrict(sample, declared) !== null) {
+    return { encoding: new TextDecoder(declared).encoding, source: 'charset-parameter' };
+  }
+
+  let best = { encoding: 'windows-1252', score: -Infinity };
+  for (const encoding of CANDIDATE_ENCODINGS) {
+    const text = decodeStrict(sample, encoding);
+    if (text === null) continue;
+    const score = scoreDecoding(text, encoding);
+    if (score > best.score) best = { encoding, score };
+  }
+
+  return { encoding: best.encoding, source: 'heuristic' };
+}
+
+// Decodes the whole file, dropping a byte order mark if there is one
+export function decodeText(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+export function getEncodingLabel(encoding: string): string {
+  return SUPPORTED_ENCODINGS.find(option => option.value === encoding)?.label || encoding;
+}
+
+// Reads a file piece by piece, decoding each piece as it arrives. Characters split
+// across pieces are carried over to the next one.
+export async function streamText(
+  file: Blob,
+  encoding: string,
+  onText: (text: string, bytesRead: number) => void
+): Promise<void> {
+  const decoder = new TextDecoder(encoding);
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.length;
+    onText(decoder.decode(value, { stream: true }), bytesRead);
+  }
+
+  onText(decoder.decode(), bytesRead);
+}
@@ -0,0 +1,173 @@
+// Typed representation of parsed vCards. The parser fills it without knowing anything
+// about output formats, and CSV and the other exporters are projections of it.
+
+// Parameter values are kept per parameter name, e.g. TEL;TYPE=work,voice;PREF=1 becomes
+// { TYPE: ['work', 'voice'], PREF: ['1'] }. TYPE values are lowercased.
+export interface PropertyParameters {
+  [name: string]: string[];
+}
+
+// Value types follow RFC 6350 §4. "binary" covers inline ENCODING=b/BASE64 data from
+// vCard 2.1 and 3.0, which vCard 4.0 writes as a data: URI instead.
+export type VCardValueType =
+  | 'text'
+  | 'uri'
+  | 'date-and-or-time'
+  | 'timestamp'
+  | 'language-tag'
+  | 'binary';
+
+// Text-like values are a single string, list properties (CATEGORIES, NICKNAME) a list
+// of strings and structured properties (N, ADR, ORG, GENDER) a list of components,
+// each of which may itself hold several values.
+export type VCardValue = string | string[] | string[][];
+
+export interface VCardProperty {
+  // Lowercased group prefix, e.g. "item1" for item1.TEL
+  group?: string;
+  // Uppercased property name
+  name: string;
+  params: PropertyParameters;
+  type: VCardValueType;
+  // Decoded and unescaped value
+  value: VCardValue;
+  // 1-based line number in the source file
+  line: number;
+}
+
+export interface VCard {
+  version: string;
+  // Every property except BEGIN, END and VERSION, in source order
+  properties: VCardProperty[];
+  // Line number of BEGIN:VCARD
+  line: number;
+}
+
+// Properties whose value is split into components on ";" (each component may itself
+// be a "," separated list), and properties whose value is a "," separated list
+export const STRUCTURED_PROPERTIES = ['N', 'ADR', 'ORG', 'GENDER'];
+export const LIST_PROPERTIES = ['CATEGORIES', 'NICKNAME'];
+
+export function getProperties(card: VCard, name: string): VCardProperty[] {
+  return card.properties.filter(property => property.name === name);
+}
+
+export function getProperty(card: VCard, name: string): VCardProperty | undefined {
+  return card.properties.find(property => property.name === name);
+}
+
+export function getTypes(property: VCardProperty): string[] {
+  return property.params.TYPE || [];
+}
+
+export function isPreferred(property: VCardProperty): boolean {
+  // vCard 3.0 marks preferred entries with TYPE=pref, vCard 4.0 with PREF=1
+  return getTypes(property).includes('pref') || (property.params.PREF || []).includes('1');
+}
+
+const MEDIA_PREFIXES: { [name: string]: string } = {
+  'PHOTO': 'image',
+  'LOGO': 'image',
+  'SOUND': 'audio'
+};
+
+// Encoding parameters only describe how the value is written in a .vcf file
+const TEXT_ENCODING_PARAMETERS = ['ENCODING', 'CHARSET', 'VALUE'];
+
+// Format of inline binary media, e.g. "jpeg" for PHOTO;ENCODING=b;TYPE=JPEG
+function getMediaFormat(property: VCardProperty): string | undefined {
+  return (getTypes(property).find(type => type !== 'pref') || property.params.MEDIATYPE?.[0])?.toLowerCase();
+}
+
+// Inline binary media as the data: URI vCard 4.0 writes instead, e.g. data:image/jpeg;base64,...
+export function toDataURI(property: VCardProperty): string {
+  const format = getMediaFormat(property);
+  const mediaType = !format
+    ? 'application/octet-stream'
+    : format.includes('/') ? format : `${MEDIA_PREFIXES[property.name] || 'application'}/${format}`;
+  return `data:${mediaType};base64,${getText(property)}`;
+}
+
+// Parameters the way vCard 4.0 and its JSON and XML forms write them: PREF=1 instead of
+// TYPE=pref, without encoding parameters, and without the format of binary media,
+// which toDataURI moves into the value
+export function getVCard4Parameters(property: VCardProperty): PropertyParameters {
+  const params: PropertyParameters = { ...property.params };
+  TEXT_ENCODING_PARAMETERS.forEach(name => delete params[name]);
+
+  const format = property.type === 'binary' ? getMediaFormat(property) : undefined;
+  const types = getTypes(property).filter(type => type !== 'pref' && type !== format);
+  delete params.TYPE;
+  if (types.length > 0) params.TYPE = types;
+  if (isPreferred(property) && !params.PREF) params.PREF = ['1'];
+
+  return Object.fromEntries(Object.entries(params).filter(([, values]) => values.length > 0));
+}
+
+// Apple writes dates without a year (BDAY;X-APPLE-OMIT-YEAR=1604:1604-03-15) with 1604
+// as the year. Returns the date in vCard's form for dates without a year, --03-15.
+export function removeAppleOmittedYear(date: string): string {
+  return date.replace(/^1604-?(\d{2})-?(\d{2})/, '--$1-$2');
+}
+
+// Returns the components of a structured value with each component's values joined by
+// the separator. Text values are returned as a single component.
+export function getComponents(property: VCardProperty, separator: string = ', '): string[] {
+  const { value } = property;
+  if (typeof value === 'string') return [value];
+  return value.map(component => (Array.isArray(component) ? component.filter(Boolean).join(separator) : component));
+}
+
+// Flattens any value into a single line of text
+export function getText(property: VCardProperty): string {
+  return getComponents(property).filter(Boolean).join(', ');
+}
+
+// The name used to refer to a card in messages: FN, else the name from N
+export function describeCard(card: VCard, position: number): string {
+  const formattedName = getProperty(card, 'FN');
+  if (formattedName && getText(formattedName)) return getText(formattedName);
+
+  const name = getProperty(card, 'N');
+  if (name) {
+    const [last = '', first = ''] = getComponents(name, ' ');
+    const fullName = [first, last].filter(Boolean).join(' ');
+    if (fullName) return fullName;
+  }
+
+  return `Contact #${position}`;
+}
+
+export function normalizeUid(uid: string): string {
+  return uid.trim().replace(/^urn:uuid:/i, '');
+}
+
+// "individual" unless KIND (or iCloud's X-ADDRESSBOOKSERVER-KIND) says otherwise
+export function getKind(card: VCard): string {
+  const kind = getProperty(card, 'KIND') || getProperty(card, 'X-ADDRESSBOOKSERVER-KIND');
+  return kind ? getText(kind).toLowerCase() : 'individual';
+}
+
+// Apple stores its built-in labels as _$!<Mobile>!$_ and user labels as plain text.
+// Built-in labels are CamelCase words ("HomePage") and get spaced out.
+export function decodeAppleLabel(label: string): string {
+  const match = label.match(/^_\$!<(.*)>!\$_$/);
+  if (!match) return label;
+  return match[1].replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+// TYPE values the way column names and labels show them: "work" becomes "Work"
+export function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+// Apple/iCloud exports label a property through a sibling in the same group:
+// item1.TEL:... is labelled by item1.X-ABLabel. Returns the decoded label per group.
+export function getGroupLabels(card: VCard): { [group: string]: string } {
+  const labels: { [group: string]: string } = {};
+  for (const property of card.properties) {
+    const value = getText(property);
+    if (property.group && property.name === 'X-ABLABEL' && value) labels[property.group] = decodeAppleLabel(value);
+  }
+  return labels;
+}
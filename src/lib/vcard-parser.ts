@@ -0,0 +1,500 @@
+import {
+  LIST_PROPERTIES,
+  PropertyParameters,
+  STRUCTURED_PROPERTIES,
+  VCard,
+  VCardProperty,
+  VCardValue,
+  VCardValueType,
+  describeCard,
+  getProperty,
+  getText
+} from './vcard-model';
+
+export type DiagnosticSeverity = 'warning' | 'error';
+
+export type DiagnosticCode =
+  | 'malformed-line'
+  | 'unknown-encoding'
+  | 'unterminated-card'
+  | 'unknown-property'
+  | 'duplicate-uid';
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  // 1-based line number in the source file
+  line: number;
+  message: string;
+  // Name (or position) of the contact the problem was found in
+  contact?: string;
+}
+
+// Reported after each card so long imports can show how far along they are
+export interface ParseProgress {
+  cards: number;
+  line: number;
+  totalLines: number;
+}
+
+export interface VCardParseResult {
+  cards: VCard[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// A line of the source file together with its 1-based line number. After unfolding,
+// the number is the one of the first physical line.
+interface SourceLine {
+  text: string;
+  line: number;
+}
+
+// A content line split into its parts, before the value is decoded
+interface ContentLine {
+  group?: string;
+  name: string;
+  params: PropertyParameters;
+  rawValue: string;
+  line: number;
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown CHARSET labels fall back to UTF-8
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// Decodes a quoted-printable value (RFC 2045) into text using the property's CHARSET.
+// Soft line breaks are already joined by unfoldLines, so any "=" that does not start
+// a hex escape is kept as a literal character. Non-ASCII characters that were left
+// unencoded are already text and are passed through unchanged.
+function decodeQuotedPrintable(value: string, charset: string): string {
+  let result = '';
+  let bytes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.substring(i + 1, i + 3);
+    if (value[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else if (value.charCodeAt(i) < 0x80) {
+      bytes.push(value.charCodeAt(i));
+    } else {
+      result += decodeBytes(new Uint8Array(bytes), charset) + value[i];
+      bytes = [];
+    }
+  }
+
+  return result + decodeBytes(new Uint8Array(bytes), charset);
+}
+
+const KNOWN_ENCODINGS = ['QUOTED-PRINTABLE', 'BASE64', 'B', '8BIT', '7BIT'];
+
+// Properties defined by vCard 2.1, 3.0 (RFC 2426) and 4.0 (RFC 6350). Anything else
+// that is not an X- extension is reported as unknown.
+const KNOWN_PROPERTIES = [
+  'BEGIN', 'END', 'VERSION', 'FN', 'N', 'NICKNAME', 'PHOTO', 'BDAY', 'ANNIVERSARY', 'GENDER',
+  'ADR', 'LABEL', 'TEL', 'EMAIL', 'MAILER', 'IMPP', 'LANG', 'TZ', 'GEO', 'TITLE', 'ROLE',
+  'LOGO', 'AGENT', 'ORG', 'MEMBER', 'RELATED', 'CATEGORIES', 'NOTE', 'PRODID', 'REV',
+  'SORT-STRING', 'SOUND', 'UID', 'CLIENTPIDMAP', 'URL', 'KEY', 'FBURL', 'CALADRURI',
+  'CALURI', 'XML', 'SOURCE', 'KIND', 'NAME', 'PROFILE', 'CLASS'
+];
+
+function isKnownCharset(charset: string): boolean {
+  try {
+    new TextDecoder(charset);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isQuotedPrintable(params: PropertyParameters): boolean {
+  return (params.ENCODING || []).some(encoding => encoding.toUpperCase() === 'QUOTED-PRINTABLE');
+}
+
+function decodeValue(value: string, params: PropertyParameters): string {
+  if (!isQuotedPrintable(params)) return value;
+  return decodeQuotedPrintable(value, params.CHARSET?.[0] || 'utf-8');
+}
+
+// Encodings that vCard 2.1 allows as bare parameters (NOTE;QUOTED-PRINTABLE:...).
+// Any other bare parameter is a type (TEL;CELL;WORK:...).
+const BARE_ENCODINGS = ['QUOTED-PRINTABLE', 'BASE64', '8BIT', '7BIT'];
+
+// Splits on every delimiter that is not inside a double-quoted parameter value.
+function splitUnquoted(text: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === delimiter && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+// Returns the index of the ":" that separates the property name and parameters from
+// the value, skipping colons inside quoted parameter values such as LABEL="a:b".
+function findValueSeparator(line: string): number {
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) return i;
+  }
+
+  return -1;
+}
+
+// Removes surrounding quotes and resolves RFC 6868 caret escapes:
+// ^n is a newline, ^' a double quote and ^^ a caret.
+function decodeParamValue(value: string): string {
+  const trimmed = value.trim();
+  const unquoted = trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1)
+    : trimmed;
+  return unquoted.replace(/\^(['n^])/g, (_, char: string) => (char === 'n' ? '\n' : char === "'" ? '"' : '^'));
+}
+
+function parseParameters(paramParts: string[]): PropertyParameters {
+  const params: PropertyParameters = {};
+
+  for (const part of paramParts) {
+    if (!part.trim()) continue;
+
+    const equalsIndex = part.indexOf('=');
+    let name: string;
+    let rawValue: string;
+
+    if (equalsIndex === -1) {
+      rawValue = part;
+      name = BARE_ENCODINGS.includes(part.trim().toUpperCase()) ? 'ENCODING' : 'TYPE';
+    } else {
+      name = part.substring(0, equalsIndex).trim().toUpperCase();
+      rawValue = part.substring(equalsIndex + 1);
+    }
+
+    let values = splitUnquoted(rawValue, ',').map(decodeParamValue).filter(Boolean);
+    if (name === 'TYPE') {
+      // Some writers quote the whole type list: TYPE="work,voice"
+      values = values.flatMap(value => value.split(',')).map(value => value.trim().toLowerCase()).filter(Boolean);
+    }
+
+    // Repeated parameters (TYPE=home;TYPE=pref) accumulate into one list
+    params[name] = [...(params[name] || []), ...values];
+  }
+
+  return params;
+}
+
+function parseContentLine({ text, line }: SourceLine): ContentLine | null {
+  const separator = findValueSeparator(text);
+  if (separator === -1) return null;
+
+  const [rawName, ...paramParts] = splitUnquoted(text.substring(0, separator), ';');
+
+  // Grouped properties are written as group.NAME, e.g. item1.TEL
+  const dotIndex = rawName.indexOf('.');
+  const group = dotIndex === -1 ? undefined : rawName.substring(0, dotIndex).trim().toLowerCase();
+
+  return {
+    group,
+    name: rawName.substring(dotIndex + 1).trim().toUpperCase(),
+    params: parseParameters(paramParts),
+    rawValue: text.substring(separator + 1),
+    line
+  };
+}
+
+// Properties whose value is a URI rather than escaped text, and properties holding dates
+const URI_PROPERTIES = ['URL', 'PHOTO', 'LOGO', 'SOUND', 'KEY', 'SOURCE', 'MEMBER', 'FBURL', 'CALURI', 'CALADRURI', 'GEO'];
+const DATE_PROPERTIES = ['BDAY', 'ANNIVERSARY', 'X-ABDATE'];
+
+// Splits a value on every delimiter that is not escaped with a backslash. Escape
+// sequences are left in place so the parts can be split again or unescaped.
+function splitEscaped(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === delimiter) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+// Resolves the text escapes defined by RFC 6350 §3.4: \n (or \N) is a newline and
+// \, \; \\ stand for the literal character.
+function unescapeText(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function resolveValueType(name: string, params: PropertyParameters): VCardValueType {
+  const encoding = (params.ENCODING?.[0] || '').toUpperCase();
+  if (encoding === 'B' || encoding === 'BASE64') return 'binary';
+
+  // VALUE=uri (3.0, 4.0) or VALUE=URL (2.1) overrides the property's default type
+  const valueParam = (params.VALUE?.[0] || '').toLowerCase();
+  if (valueParam === 'uri' || valueParam === 'url') return 'uri';
+  if (valueParam === 'text') return 'text';
+
+  if (URI_PROPERTIES.includes(name)) return 'uri';
+  if (DATE_PROPERTIES.includes(name)) return 'date-and-or-time';
+  if (name === 'REV') return 'timestamp';
+  if (name === 'LANG') return 'language-tag';
+  return 'text';
+}
+
+function parseValue(name: string, type: VCardValueType, value: string): VCardValue {
+  if (type === 'binary') return value.replace(/\s+/g, '');
+  if (type === 'uri') return value;
+
+  if (STRUCTURED_PROPERTIES.includes(name)) {
+    return splitEscaped(value, ';')
+      .map(component => splitEscaped(component, ',').map(part => unescapeText(part).trim()));
+  }
+  if (LIST_PROPERTIES.includes(name)) {
+    return splitEscaped(value, ',').map(item => unescapeText(item).trim()).filter(Boolean);
+  }
+  return unescapeText(value);
+}
+
+function toProperty(contentLine: ContentLine): VCardProperty {
+  const { group, name, params, line } = contentLine;
+  const type = resolveValueType(name, params);
+  const value = decodeValue(contentLine.rawValue, params).trim();
+
+  return { group, name, params, type, value: parseValue(name, type, value), line };
+}
+
+function detectVersion(lines: SourceLine[]): string {
+  for (const { text } of lines) {
+    const match = text.match(/^\s*VERSION:\s*([\d.]+)/i);
+    if (match) return match[1];
+  }
+  return '3.0';
+}
+
+// Joins folded continuation lines back onto the line they belong to.
+// vCard 3.0/4.0 (RFC 2425, RFC 6350) fold by inserting a line break followed by a
+// single space or tab, and both are removed when unfolding. vCard 2.1 folds at
+// existing whitespace, so only the line break is removed and the whitespace stays.
+// Quoted-printable values end a line with "=" (a soft line break) when they continue
+// on the next line, which is joined as-is.
+function unfoldLines(physicalLines: SourceLine[], version: string): SourceLine[] {
+  const keepWhitespace = version === '2.1';
+  const lines: SourceLine[] = [];
+  let inSoftBreak = false;
+
+  for (const { text, line } of physicalLines) {
+    const isContinuation = text.startsWith(' ') || text.startsWith('\t');
+    const previous = lines[lines.length - 1];
+
+    if (inSoftBreak) {
+      previous.text = previous.text.trimEnd().slice(0, -1) + text;
+    } else if (isContinuation && previous && previous.text !== '') {
+      previous.text += keepWhitespace ? text : text.substring(1);
+    } else {
+      lines.push({ text, line });
+    }
+
+    const current = lines[lines.length - 1].text;
+    const separator = findValueSeparator(current);
+    inSoftBreak = separator !== -1 &&
+      /QUOTED-PRINTABLE/i.test(current.substring(0, separator)) &&
+      current.trimEnd().endsWith('=');
+  }
+
+  return lines;
+}
+
+// Reports problems with a property's ENCODING and CHARSET parameters
+function checkEncoding(property: ContentLine, diagnostics: ParseDiagnostic[]): void {
+  for (const encoding of property.params.ENCODING || []) {
+    if (!KNOWN_ENCODINGS.includes(encoding.toUpperCase())) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unknown-encoding',
+        line: property.line,
+        message: `Unknown encoding "${encoding}" on ${property.name}; the value was kept as-is`
+      });
+    }
+  }
+
+  for (const charset of property.params.CHARSET || []) {
+    if (!isKnownCharset(charset)) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unknown-encoding',
+        line: property.line,
+        message: `Unknown charset "${charset}" on ${property.name}; decoded as UTF-8`
+      });
+    }
+  }
+}
+
+function parseCard(cardLines: SourceLine[], diagnostics: ParseDiagnostic[]): VCard {
+  const version = detectVersion(cardLines);
+  const card: VCard = { version, properties: [], line: cardLines[0].line };
+
+  for (const line of unfoldLines(cardLines, version)) {
+    const text = line.text.trim();
+    if (!text) continue;
+
+    const contentLine = parseContentLine({ text, line: line.line });
+    if (!contentLine) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'malformed-line',
+        line: line.line,
+        message: `Line has no ":" separating the property from its value and was skipped`
+      });
+      continue;
+    }
+
+    if (!KNOWN_PROPERTIES.includes(contentLine.name) && !contentLine.name.startsWith('X-')) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unknown-property',
+        line: contentLine.line,
+        message: `Unknown property ${contentLine.name}`
+      });
+    }
+
+    if (['BEGIN', 'END', 'VERSION'].includes(contentLine.name)) continue;
+
+    checkEncoding(contentLine, diagnostics);
+    card.properties.push(toProperty(contentLine));
+  }
+
+  return card;
+}
+
+// Parses a document that arrives in pieces, e.g. while a file is being read. Each card
+// is handed to onCard as soon as its END:VCARD line arrives, so only the card being
+// read is held in memory.
+export interface VCardParser {
+  // Feeds the next piece of text, which may end in the middle of a line
+  push(text: string): void;
+  // Parses what is left and returns the diagnostics for the whole document, by line
+  end(): ParseDiagnostic[];
+}
+
+export function createVCardParser(onCard: (card: VCard) => void): VCardParser {
+  const diagnostics: ParseDiagnostic[] = [];
+  const uidLines: { [uid: string]: number } = {};
+  let cardLines: SourceLine[] | null = null;
+  let cardCount = 0;
+  let lineCount = 0;
+  let pending = '';
+
+  const finishCard = (lines: SourceLine[], terminated: boolean) => {
+    const cardDiagnostics: ParseDiagnostic[] = [];
+    const card = parseCard(lines, cardDiagnostics);
+
+    if (!terminated) {
+      cardDiagnostics.push({
+        severity: 'error',
+        code: 'unterminated-card',
+        line: card.line,
+        message: 'BEGIN:VCARD has no matching END:VCARD; the contact may be incomplete'
+      });
+    }
+
+    const uid = getProperty(card, 'UID');
+    const uidValue = uid ? getText(uid) : '';
+    if (uidValue && uidLines[uidValue] !== undefined) {
+      cardDiagnostics.push({
+        severity: 'warning',
+        code: 'duplicate-uid',
+        line: uid.line,
+        message: `UID ${uidValue} was already used by the contact on line ${uidLines[uidValue]}`
+      });
+    } else if (uidValue) {
+      uidLines[uidValue] = card.line;
+    }
+
+    const contactName = describeCard(card, ++cardCount);
+    diagnostics.push(...cardDiagnostics.map(diagnostic => ({ ...diagnostic, contact: contactName })));
+    onCard(card);
+  };
+
+  const processLine = (text: string) => {
+    const sourceLine = { text, line: ++lineCount };
+    const keyword = text.trim().toUpperCase();
+
+    if (keyword === 'BEGIN:VCARD') {
+      if (cardLines) finishCard(cardLines, false);
+      cardLines = [sourceLine];
+    } else if (cardLines) {
+      cardLines.push(sourceLine);
+      if (keyword === 'END:VCARD') {
+        finishCard(cardLines, true);
+        cardLines = null;
+      }
+    } else if (keyword) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'malformed-line',
+        line: sourceLine.line,
+        message: 'Text outside of a BEGIN:VCARD ... END:VCARD block was ignored'
+      });
+    }
+  };
+
+  return {
+    push(text: string) {
+      let buffer = pending + text;
+      // A trailing "\r" may be the first half of a "\r\n" split across pieces
+      const endsWithCR = buffer.endsWith('\r');
+      if (endsWithCR) buffer = buffer.slice(0, -1);
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      pending = lines.pop() + (endsWithCR ? '\r' : '');
+      lines.forEach(processLine);
+    },
+
+    end() {
+      pending.split(/\r\n|\r|\n/).forEach(processLine);
+      pending = '';
+      if (cardLines) finishCard(cardLines, false);
+      cardLines = null;
+
+      return diagnostics.sort((a, b) => a.line - b.line);
+    }
+  };
+}
+
+export function parseVCards(vcfContent: string, onProgress?: (progress: ParseProgress) => void): VCardParseResult {
+  const cards: VCard[] = [];
+  const totalLines = (vcfContent.match(/\r\n|\r|\n/g) || []).length + 1;
+  const parser = createVCardParser(card => {
+    cards.push(card);
+    onProgress?.({ cards: cards.length, line: card.line, totalLines });
+  });
+
+  parser.push(vcfContent);
+  return { cards, diagnostics: parser.end() };
+}
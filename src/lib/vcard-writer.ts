@@ -0,0 +1,152 @@
+// Serialization of the vCard model as vCard 3.0 (RFC 2426) or 4.0 (RFC 6350) text:
+// escaped values, CRLF line breaks and lines folded at 75 octets.
+import {
+  LIST_PROPERTIES,
+  STRUCTURED_PROPERTIES,
+  VCard,
+  VCardProperty,
+  getComponents,
+  getProperty,
+  getText,
+  getTypes,
+  isPreferred
+} from './vcard-model';
+import { downloadBlob } from './download';
+
+export type VCardVersion = '3.0' | '4.0';
+
+// RFC 6350 §3.2: lines longer than 75 octets are folded
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// vCard 4.0 properties vCard 3.0 only knows as extensions
+const VCARD3_NAMES: { [name: string]: string } = {
+  'ANNIVERSARY': 'X-ANNIVERSARY'
+};
+
+// Backslashes, commas, semicolons and line breaks are escaped in text values
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+function formatValue(property: VCardProperty): string {
+  const { name, value, type } = property;
+
+  // URIs and dates contain no separators that need escaping, only line breaks can't stay
+  if (type !== 'text' && typeof value === 'string') return value.replace(/\r\n|\r|\n/g, ' ');
+
+  if (typeof value === 'string') return escapeText(value);
+  if (STRUCTURED_PROPERTIES.includes(name)) {
+    return value
+      .map(component => (Array.isArray(component) ? component : [component]).map(escapeText).join(','))
+      .join(';');
+  }
+  if (LIST_PROPERTIES.includes(name)) return (value as string[]).map(escapeText).join(',');
+  return escapeText(getText(property));
+}
+
+// Parameter values with a colon, semicolon or comma have to be quoted
+function formatParameterValue(value: string): string {
+  return /[:;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+// vCard 3.0 marks preferred entries with TYPE=pref, vCard 4.0 with PREF=1
+function formatParameters(property: VCardProperty, version: VCardVersion): string {
+  const params: { [name: string]: string[] } = { ...property.params };
+  const types = getTypes(property).filter(type => type !== 'pref');
+  delete params.TYPE;
+
+  if (version === '3.0') {
+    if (isPreferred(property)) types.push('pref');
+    delete params.PREF;
+  } else if (isPreferred(property) && !params.PREF) {
+    params.PREF = ['1'];
+  }
+  if (types.length > 0) params.TYPE = types;
+
+  return Object.entries(params)
+    .filter(([, values]) => values.length > 0)
+    .map(([name, values]) => `;${name}=${values.map(formatParameterValue).join(',')}`)
+    .join('');
+}
+
+// Splits a content line into lines of at most 75 octets. Continuation lines start with
+// a space, and multi-byte characters are never split.
+export function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+function formatProperty(property: VCardProperty, version: VCardVersion): string {
+  const group = property.group ? `${property.group}.` : '';
+  const name = version === '3.0' ? VCARD3_NAMES[property.name] || property.name : property.name;
+  return foldLine(`${group}${name}${formatParameters(property, version)}:${formatValue(property)}`);
+}
+
+// FN is required by both versions and N by vCard 3.0. A missing FN is built from the
+// name, a missing N is written empty.
+function getRequiredProperties(card: VCard, version: VCardVersion): VCardProperty[] {
+  const required: VCardProperty[] = [];
+  const name = getProperty(card, 'N');
+  const formattedName = getProperty(card, 'FN');
+
+  if (!formattedName || !getText(formattedName)) {
+    const [last = '', first = '', middle = '', prefix = '', suffix = ''] = name ? getComponents(name, ' ') : [];
+    // Cards without a name are named after their organization or e-mail address
+    const organization = getProperty(card, 'ORG');
+    const email = getProperty(card, 'EMAIL');
+    const value = [prefix, first, middle, last, suffix].filter(Boolean).join(' ') ||
+      (organization ? getComponents(organization)[0] : '') ||
+      (email ? getText(email) : '');
+    required.push({ name: 'FN', params: {}, type: 'text', value, line: card.line });
+  }
+
+  if (version === '3.0' && !name) {
+    required.push({ name: 'N', params: {}, type: 'text', value: ['', '', '', '', ''], line: card.line });
+  }
+
+  return required;
+}
+
+export function writeVCard(card: VCard, version: VCardVersion): string {
+  const properties = [
+    ...getRequiredProperties(card, version),
+    ...card.properties.filter(property => !(property.name === 'FN' && !getText(property)))
+  ];
+  return [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    ...properties.map(property => formatProperty(property, version)),
+    'END:VCARD'
+  ].join('\r\n');
+}
+
+export function writeVCards(cards: VCard[], version: VCardVersion): string {
+  return cards.map(card => `${writeVCard(card, version)}\r\n`).join('');
+}
+
+export function downloadVCF(vcfContent: string, filename: string): void {
+  downloadBlob(new Blob([vcfContent], { type: 'text/vcard;charset=utf-8;' }), filename);
+}
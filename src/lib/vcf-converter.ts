@@ -1,18 +1,146 @@
+import {
+  VCard,
+  VCardProperty,
+  capitalize,
+  describeCard,
+  getComponents,
+  getGroupLabels,
+  getKind,
+  getProperty,
+  getText,
+  getTypes,
+  isPreferred,
+  normalizeUid,
+  removeAppleOmittedYear
+} from './vcard-model';
+import { NAME_COLUMNS, getStructuredName } from './contact-name';
+import { orderGoogleColumns, vcardToGoogleContact } from './google-contacts';
+import { OUTLOOK_COLUMNS, vcardToOutlookContact } from './outlook-contacts';
+import { ColumnLayout, applyLayout, getLayoutHeaders } from './column-mapping';
+import { ParseDiagnostic, ParseProgress, createVCardParser, parseVCards } from './vcard-parser';
+import { streamText } from './text-encoding';
+import {
+  CSVDialect,
+  DEFAULT_CSV_DIALECT,
+  encodeCSV,
+  encodeCSVText,
+  formatCSVRow,
+  getCSVMimeType
+} from './csv-dialect';
+import { createZip } from './zip';
+import { downloadBlob } from './download';
+
 export interface Contact {
   [key: string]: string;
 }
 
-function parseName(fullName: string): [string, string] {
-  const parts = fullName.trim().split(' ');
-  const firstName = parts[0] || '';
-  const lastName = parts.slice(1).join(' ') || '';
-  return [firstName, lastName];
+// A vCard 4.0 KIND:group card (or an iCloud X-ADDRESSBOOKSERVER-KIND:group card)
+export interface ContactGroup {
+  name: string;
+  uid: string;
+  // UIDs of the member cards, without the urn:uuid: prefix
+  members: string[];
+  // Names of the members found in the same file, in the order of members
+  memberNames: string[];
 }
 
-function normalizeFieldName(vcfField: string): string {
-  // Extract field type and parameters
-  const [fieldType, ...params] = vcfField.split(';');
-  
+// Inline PHOTO, LOGO or SOUND data, exported as a file next to the CSV
+export interface MediaFile {
+  // Path relative to the CSV, e.g. photos/Jane Doe.jpg
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ConversionResult {
+  contacts: Contact[];
+  groups: ContactGroup[];
+  media: MediaFile[];
+}
+
+export interface ParseResult extends ConversionResult {
+  diagnostics: ParseDiagnostic[];
+}
+
+// Column layout of the CSV: "generic" has a column for everything found in the file,
+// "google" and "outlook" are the formats Google Contacts and Outlook import
+export type OutputProfile = 'generic' | 'google' | 'outlook';
+
+export interface ConversionOptions {
+  profile?: OutputProfile;
+  // Also keep each address as a single comma separated column
+  includeFormattedAddress?: boolean;
+  // Also export the delivery label given by the vCard 4.0 ADR LABEL parameter
+  includeAddressLabel?: boolean;
+}
+
+// Column suffixes for the seven ADR components, in vCard order
+const ADDRESS_COMPONENTS = ['PO Box', 'Extended Address', 'Street', 'City', 'Region', 'Postal Code', 'Country'];
+
+const PARAMETER_BASE_NAMES: { [key: string]: string } = {
+  'TEL': 'Phone',
+  'EMAIL': 'Email',
+  'ADR': 'Address',
+  'LANG': 'Language',
+  'RELATED': 'Related'
+};
+
+// GENDER sex component values (RFC 6350 §6.2.7)
+const GENDER_SEXES: { [key: string]: string } = {
+  'M': 'Male',
+  'F': 'Female',
+  'O': 'Other',
+  'N': 'Not applicable',
+  'U': 'Unknown'
+};
+
+// Folder inside the export bundle for each media property
+const MEDIA_FOLDERS: { [name: string]: string } = {
+  'PHOTO': 'photos',
+  'LOGO': 'logos',
+  'SOUND': 'sounds'
+};
+
+// File extensions for the TYPE values and media subtypes writers use
+const MEDIA_EXTENSIONS: { [format: string]: string } = {
+  'jpeg': 'jpg',
+  'jpg': 'jpg',
+  'pjpeg': 'jpg',
+  'png': 'png',
+  'gif': 'gif',
+  'bmp': 'bmp',
+  'tiff': 'tif',
+  'webp': 'webp',
+  'heic': 'heic',
+  'wave': 'wav',
+  'wav': 'wav',
+  'x-wav': 'wav',
+  'pcm': 'wav',
+  'mpeg': 'mp3',
+  'mp3': 'mp3',
+  'ogg': 'ogg',
+  'aac': 'aac',
+  'aiff': 'aif'
+};
+
+// State shared by all cards of a file: lookups used to resolve RELATED and MEMBER
+// references, and the media files extracted so far
+interface ProjectionContext {
+  namesByUid: { [uid: string]: string };
+  groupsByUid: { [uid: string]: string[] };
+  media: MediaFile[];
+  mediaPaths: Set<string>;
+  cardCount: number;
+  // Inline media is dropped instead of extracted, so large files stay out of memory
+  skipMedia: boolean;
+}
+
+function createProjectionContext(skipMedia: boolean = false): ProjectionContext {
+  return { namesByUid: {}, groupsByUid: {}, media: [], mediaPaths: new Set(), cardCount: 0, skipMedia };
+}
+
+function normalizeFieldName(property: VCardProperty, label?: string): string {
+  const fieldType = property.name;
+
   // Map VCF field names to human-readable names
   const fieldMapping: { [key: string]: string } = {
     'FN': 'Full Name',
@@ -24,121 +152,324 @@ function normalizeFieldName(vcfField: string): string {
     'URL': 'Website',
     'NOTE': 'Notes',
     'NICKNAME': 'Nickname',
-    'CATEGORIES': 'Categories'
+    'CATEGORIES': 'Categories',
+    'X-ABRELATEDNAMES': 'Related Name',
+    'X-ABDATE': 'Date',
+    'ANNIVERSARY': 'Anniversary',
+    'KIND': 'Kind',
+    'PHOTO': 'Photo',
+    'LOGO': 'Logo',
+    'SOUND': 'Sound'
   };
 
   let baseName = fieldMapping[fieldType] || fieldType;
 
-  // Handle phone and email types with parameters
-  if (fieldType === 'TEL') {
-    baseName = 'Phone';
-    const typeParam = params.find(p => p.startsWith('TYPE='));
-    if (typeParam) {
-      const type = typeParam.split('=')[1];
-      baseName += ` ${type.charAt(0).toUpperCase() + type.slice(1).toLowerCase()}`;
-    }
-  } else if (fieldType === 'EMAIL') {
-    baseName = 'Email';
-    const typeParam = params.find(p => p.startsWith('TYPE='));
-    if (typeParam) {
-      const type = typeParam.split('=')[1];
-      baseName += ` ${type.charAt(0).toUpperCase() + type.slice(1).toLowerCase()}`;
-    }
-  } else if (fieldType === 'ADR') {
-    baseName = 'Address';
-    const typeParam = params.find(p => p.startsWith('TYPE='));
-    if (typeParam) {
-      const type = typeParam.split('=')[1];
-      baseName += ` ${type.charAt(0).toUpperCase() + type.slice(1).toLowerCase()}`;
-    }
+  // A custom label replaces the TYPE words, e.g. "Phone Assistant"
+  if (label) {
+    baseName = `${PARAMETER_BASE_NAMES[fieldType] || baseName} ${label}`;
+    if (isPreferred(property)) baseName += ' (Preferred)';
+  } else if (PARAMETER_BASE_NAMES[fieldType]) {
+    // Handle phone, email and address types with parameters.
+    // "internet" is the implied type of every email address and says nothing useful
+    const types = getTypes(property).filter(type => type !== 'pref' && type !== 'internet');
+    baseName = [PARAMETER_BASE_NAMES[fieldType], ...types.map(capitalize)].join(' ');
+    if (isPreferred(property)) baseName += ' (Preferred)';
   }
 
   return baseName;
 }
 
-function parseVCard(vcardText: string): Contact {
-  const lines = vcardText.split(/\r\n|\r|\n/);
+function getPreference(property: VCardProperty): number {
+  const pref = parseInt(property.params.PREF?.[0], 10);
+  return isNaN(pref) ? 101 : pref;
+}
+
+function decodeBase64(base64: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(base64.replace(/\s+/g, '')), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+// Returns the bytes and file format of inline media: ENCODING=b/BASE64 values
+// (vCard 2.1, 3.0) and base64 data: URIs (vCard 4.0). Linked media returns null.
+function readInlineMedia(property: VCardProperty): { data: Uint8Array; format: string } | null {
+  const value = getText(property);
+
+  if (property.type === 'binary') {
+    const type = getTypes(property).find(t => t !== 'pref') || property.params.MEDIATYPE?.[0] || '';
+    const data = decodeBase64(value);
+    return data && { data, format: type.toLowerCase().split('/').pop() };
+  }
+
+  const match = value.match(/^data:([^;,]*)(?:;[^;,]*)*;base64,(.*)$/is);
+  if (!match) return null;
+  const data = decodeBase64(match[2]);
+  return data && { data, format: match[1].toLowerCase().split('/').pop() };
+}
+
+function isInlineMedia(property: VCardProperty): boolean {
+  return property.type === 'binary' || /^data:/i.test(getText(property));
+}
+
+function toFileName(name: string): string {
+  const safeName = Array.from(name)
+    .filter(char => char.charCodeAt(0) >= 32)
+    .join('')
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return safeName || 'contact';
+}
+
+// Stores inline media as a file named after the contact and returns its path
+function extractMedia(property: VCardProperty, contactName: string, context: ProjectionContext): string | null {
+  const media = readInlineMedia(property);
+  if (!media) return null;
+
+  const folder = MEDIA_FOLDERS[property.name];
+  const extension = MEDIA_EXTENSIONS[media.format] || media.format || 'bin';
+  const baseName = toFileName(contactName);
+
+  let path = `${folder}/${baseName}.${extension}`;
+  for (let copy = 2; context.mediaPaths.has(path); copy++) {
+    path = `${folder}/${baseName} (${copy}).${extension}`;
+  }
+
+  context.mediaPaths.add(path);
+  context.media.push({ path, data: media.data });
+  return path;
+}
+
+// Flattens a card into one CSV row. Repeated fields get numbered columns
+// ("Phone Cell", "Phone Cell 2") and structured values are spread over several columns.
+export function vcardToContact(
+  card: VCard,
+  options: ConversionOptions = {},
+  context: ProjectionContext = createProjectionContext()
+): Contact {
   const contact: Contact = {};
+  const contactName = describeCard(card, ++context.cardCount);
   const fieldCounts: { [key: string]: number } = {};
+  let displayName = '';
 
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    if (!trimmedLine || trimmedLine === 'BEGIN:VCARD' || trimmedLine === 'END:VCARD' || trimmedLine.startsWith('VERSION:')) {
+  // Apple/iCloud exports describe a property through siblings in the same group:
+  // item1.TEL:... is labelled by item1.X-ABLabel and item2.ADR gets its country code
+  // from item2.X-ABADR
+  const groupLabels = getGroupLabels(card);
+  const groupCountryCodes: { [group: string]: string } = {};
+  for (const property of card.properties) {
+    const value = getText(property);
+    if (property.group && property.name === 'X-ABADR' && value) groupCountryCodes[property.group] = value;
+  }
+
+  const nextFieldName = (fieldKey: string): string => {
+    fieldCounts[fieldKey] = (fieldCounts[fieldKey] || 0) + 1;
+    return fieldCounts[fieldKey] > 1 ? `${fieldKey} ${fieldCounts[fieldKey]}` : fieldKey;
+  };
+
+  // Languages are listed most preferred first (PREF=1 before PREF=2 before no PREF)
+  const languages = card.properties
+    .filter(property => property.name === 'LANG')
+    .sort((a, b) => getPreference(a) - getPreference(b));
+  const properties = [
+    ...card.properties.filter(property => property.name !== 'LANG'),
+    ...languages
+  ];
+
+  for (const property of properties) {
+    const { name: fieldName, params } = property;
+    if (fieldName === 'X-ABLABEL' || fieldName === 'X-ABADR' || fieldName === 'MEMBER') continue;
+
+    const label = property.group ? groupLabels[property.group] : undefined;
+
+    // Handle name specially
+    if (fieldName === 'FN') {
+      if (!displayName) displayName = getText(property);
       continue;
     }
 
-    const colonIndex = trimmedLine.indexOf(':');
-    if (colonIndex === -1) continue;
+    // The structured name fills the name columns below
+    if (fieldName === 'N') continue;
 
-    const fieldPart = trimmedLine.substring(0, colonIndex);
-    const value = trimmedLine.substring(colonIndex + 1).trim();
+    // Handle addresses specially
+    if (fieldName === 'ADR') {
+      const addrParts = getComponents(property);
+      if (addrParts.some(Boolean)) {
+        const finalFieldName = nextFieldName(normalizeFieldName(property, label));
+        ADDRESS_COMPONENTS.forEach((component, index) => {
+          if (addrParts[index]) contact[`${finalFieldName} ${component}`] = addrParts[index];
+        });
 
-    if (!value) continue;
+        if (options.includeFormattedAddress) {
+          contact[finalFieldName] = addrParts.filter(Boolean).join(', ');
+        }
+        if (options.includeAddressLabel && params.LABEL?.length) {
+          contact[`${finalFieldName} Label`] = params.LABEL.join(', ');
+        }
 
-    // Handle name specially
-    if (fieldPart === 'FN') {
-      const [firstName, lastName] = parseName(value);
-      contact['First Name'] = firstName;
-      contact['Last Name'] = lastName;
+        const countryCode = property.group ? groupCountryCodes[property.group] : undefined;
+        if (countryCode) contact[`${finalFieldName} Country Code`] = countryCode.toUpperCase();
+      }
       continue;
     }
 
-    // Handle structured name (N field)
-    if (fieldPart === 'N') {
-      const nameParts = value.split(';');
-      if (nameParts[1] && !contact['First Name']) contact['First Name'] = nameParts[1];
-      if (nameParts[0] && !contact['Last Name']) contact['Last Name'] = nameParts[0];
+    // Handle gender: sex;identity, e.g. GENDER:F;Woman
+    if (fieldName === 'GENDER') {
+      const [sex = '', identity = ''] = getComponents(property);
+      if (sex) contact[nextFieldName('Gender')] = GENDER_SEXES[sex.toUpperCase()] || sex;
+      if (identity) contact[nextFieldName('Gender Identity')] = identity;
       continue;
     }
 
-    // Handle addresses specially
-    if (fieldPart.startsWith('ADR')) {
-      const addrParts = value.split(';').filter(part => part.trim());
-      if (addrParts.length > 0) {
-        const normalizedField = normalizeFieldName(fieldPart);
-        const fieldKey = normalizedField;
-        
-        if (!fieldCounts[fieldKey]) fieldCounts[fieldKey] = 0;
-        fieldCounts[fieldKey]++;
-        
-        const finalFieldName = fieldCounts[fieldKey] > 1 ? `${fieldKey} ${fieldCounts[fieldKey]}` : fieldKey;
-        contact[finalFieldName] = addrParts.join(', ');
+    // Handle inline photos, logos and sounds: the cell gets the extracted file's path
+    if (MEDIA_FOLDERS[fieldName]) {
+      if (context.skipMedia && isInlineMedia(property)) continue;
+      const path = extractMedia(property, contactName, context);
+      if (path) {
+        contact[nextFieldName(normalizeFieldName(property, label))] = path;
+        continue;
       }
-      continue;
     }
 
     // Handle all other fields
-    const normalizedField = normalizeFieldName(fieldPart);
-    
-    if (!fieldCounts[normalizedField]) fieldCounts[normalizedField] = 0;
-    fieldCounts[normalizedField]++;
-    
-    const finalFieldName = fieldCounts[normalizedField] > 1 ? `${normalizedField} ${fieldCounts[normalizedField]}` : normalizedField;
-    contact[finalFieldName] = value;
+    let formattedValue = getText(property);
+    if (fieldName === 'TEL' && property.type === 'uri') {
+      formattedValue = formattedValue.replace(/^tel:/i, '');
+    }
+    if (fieldName === 'BDAY' || fieldName === 'ANNIVERSARY' || fieldName === 'X-ABDATE') {
+      // Apple's 1604 placeholder year is written as --MM-DD, as in the other outputs
+      formattedValue = removeAppleOmittedYear(formattedValue);
+    }
+    if (fieldName === 'RELATED') {
+      // Show the name of a related contact from the same file instead of its UID
+      formattedValue = context.namesByUid[normalizeUid(formattedValue)] || formattedValue;
+    }
+    if (!formattedValue) continue;
+
+    contact[nextFieldName(normalizeFieldName(property, label))] = formattedValue;
   }
 
-  // Ensure First Name and Last Name exist
-  if (!contact['First Name']) contact['First Name'] = '';
-  if (!contact['Last Name']) contact['Last Name'] = '';
+  const name = getStructuredName(card);
+  contact['Prefix'] = name.prefix;
+  contact['First Name'] = name.first;
+  contact['Middle Name'] = name.middle;
+  contact['Last Name'] = name.last;
+  contact['Suffix'] = name.suffix;
+  contact['Display Name'] = displayName;
+
+  const uid = getProperty(card, 'UID');
+  const groupNames = uid ? context.groupsByUid[normalizeUid(getText(uid))] : undefined;
+  if (groupNames?.length) contact['Groups'] = groupNames.join(', ');
 
   return contact;
 }
 
-export function parseVCF(vcfContent: string): Contact[] {
-  const contacts: Contact[] = [];
-  const vcardBlocks = vcfContent.split(/BEGIN:VCARD/i).slice(1);
+// The first card with a UID names it; later cards reusing the UID don't replace it
+function registerName(card: VCard, position: number, context: ProjectionContext): void {
+  const uid = getProperty(card, 'UID');
+  if (!uid || !getText(uid)) return;
+  const key = normalizeUid(getText(uid));
+  if (!context.namesByUid[key]) context.namesByUid[key] = describeCard(card, position);
+}
+
+// Turns a group card into a group and records it on its members. Member names are
+// looked up, so every card's name must be registered first.
+function createGroup(card: VCard, position: number, context: ProjectionContext): ContactGroup {
+  const uid = getProperty(card, 'UID');
+  const members = card.properties
+    .filter(property => property.name === 'MEMBER' || property.name === 'X-ADDRESSBOOKSERVER-MEMBER')
+    .map(property => normalizeUid(getText(property)))
+    .filter(Boolean);
+  const group: ContactGroup = {
+    name: describeCard(card, position),
+    uid: uid ? normalizeUid(getText(uid)) : '',
+    members,
+    memberNames: members.map(member => context.namesByUid[member] || '')
+  };
 
-  for (const block of vcardBlocks) {
-    const fullVCard = 'BEGIN:VCARD' + block;
-    const contact = parseVCard(fullVCard);
-    contacts.push(contact);
+  for (const member of group.members) {
+    context.groupsByUid[member] = [...(context.groupsByUid[member] || []), group.name];
   }
 
-  return contacts;
+  return group;
 }
 
-export function convertToCSV(contacts: Contact[]): string {
+function projectCard(card: VCard, options: ConversionOptions, context: ProjectionContext): Contact {
+  if (!options.profile || options.profile === 'generic') return vcardToContact(card, options, context);
+
+  const uid = getProperty(card, 'UID');
+  const groupNames = uid ? context.groupsByUid[normalizeUid(getText(uid))] : undefined;
+  return options.profile === 'google'
+    ? vcardToGoogleContact(card, groupNames, context.namesByUid)
+    : vcardToOutlookContact(card, groupNames, context.namesByUid);
+}
+
+// Splits cards into contacts and groups. Group cards only list their members, so
+// instead of becoming empty contacts they are returned as groups and each member
+// contact gets a Groups column.
+export function convertVCards(cards: VCard[], options: ConversionOptions = {}): ConversionResult {
+  const context = createProjectionContext();
+
+  cards.forEach((card, index) => registerName(card, index + 1, context));
+
+  const groups = cards
+    .map((card, index) => (getKind(card) === 'group' ? createGroup(card, index + 1, context) : null))
+    .filter(Boolean);
+
+  const contacts = cards
+    .filter(card => getKind(card) !== 'group')
+    .map(card => projectCard(card, options, context));
+
+  return { contacts, groups, media: context.media };
+}
+
+export function parseVCFWithDiagnostics(
+  vcfContent: string,
+  options: ConversionOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): ParseResult {
+  const { cards, diagnostics } = parseVCards(vcfContent, onProgress);
+  return { ...convertVCards(cards, options), diagnostics };
+}
+
+export function parseVCF(vcfContent: string, options: ConversionOptions = {}): Contact[] {
+  return parseVCFWithDiagnostics(vcfContent, options).contacts;
+}
+
+// Orders columns with the name columns first, then alphabetically
+function sortFields(fields: Set<string>): string[] {
+  return Array.from(fields).sort((a, b) => {
+    const aIndex = NAME_COLUMNS.indexOf(a);
+    const bIndex = NAME_COLUMNS.indexOf(b);
+    if (aIndex !== -1 || bIndex !== -1) {
+      if (aIndex === -1) return 1;
+      if (bIndex === -1) return -1;
+      return aIndex - bIndex;
+    }
+    return a.localeCompare(b);
+  });
+}
+
+// Column names are only quoted when they have to be, whatever the dialect's quoting
+function orderColumns(fields: Set<string>, profile: OutputProfile = 'generic'): string[] {
+  if (profile === 'google') return orderGoogleColumns(fields);
+  if (profile === 'outlook') return OUTLOOK_COLUMNS;
+  return sortFields(fields);
+}
+
+function toCSVHeader(fields: string[], dialect: CSVDialect): string {
+  return formatCSVRow(fields, { ...dialect, quoting: 'needed' });
+}
+
+function toCSVLine(contact: Contact, fields: string[], dialect: CSVDialect): string {
+  return formatCSVRow(fields.map(field => contact[field] || ''), dialect);
+}
+
+// The columns convertToCSV writes for the contacts, in order
+export function getColumns(contacts: Contact[], profile: OutputProfile = 'generic'): string[] {
   // Collect all unique field names across all contacts
   const allFields = new Set<string>();
   
@@ -146,47 +477,190 @@ export function convertToCSV(contacts: Contact[]): string {
     Object.keys(contact).forEach(field => allFields.add(field));
   }
   
-  // Sort fields with First Name and Last Name first, then alphabetically
-  const sortedFields = Array.from(allFields).sort((a, b) => {
-    if (a === 'First Name') return -1;
-    if (b === 'First Name') return 1;
-    if (a === 'Last Name') return -1;
-    if (b === 'Last Name') return 1;
-    return a.localeCompare(b);
+  return orderColumns(allFields, profile);
+}
+
+// A layout from the column mapping editor replaces the profile's columns
+export function convertToCSV(
+  contacts: Contact[],
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+  profile: OutputProfile = 'generic',
+  layout?: ColumnLayout
+): string {
+  const rows = layout ? applyLayout(contacts, layout) : contacts;
+  const sortedFields = layout ? getLayoutHeaders(layout) : getColumns(contacts, profile);
+  const csvLines = [toCSVHeader(sortedFields, dialect)];
+
+  for (const contact of rows) {
+    csvLines.push(toCSVLine(contact, sortedFields, dialect));
+  }
+
+  return csvLines.join(dialect.lineEnding);
+}
+
+// The contacts convertToCSV would write, each with its fields in the order of the CSV
+// header. Fields a contact doesn't have are left out, as in the parsed contacts.
+function orderContacts(contacts: Contact[], profile: OutputProfile, layout?: ColumnLayout): Contact[] {
+  const rows = layout ? applyLayout(contacts, layout) : contacts;
+  const sortedFields = layout ? getLayoutHeaders(layout) : getColumns(contacts, profile);
+
+  return rows.map(contact => {
+    const ordered: Contact = {};
+    for (const field of sortedFields) {
+      if (Object.prototype.hasOwnProperty.call(contact, field)) ordered[field] = contact[field];
+    }
+    return ordered;
   });
+}
 
-  const csvLines = [sortedFields.join(',')];
+export function convertToJSON(contacts: Contact[], profile: OutputProfile = 'generic', layout?: ColumnLayout): string {
+  return JSON.stringify(orderContacts(contacts, profile, layout), null, 2);
+}
 
-  for (const contact of contacts) {
-    const row = sortedFields.map(field => {
-      const value = contact[field] || '';
-      // Escape quotes and wrap in quotes for CSV format
-      const escapedValue = value.replace(/"/g, '""');
-      return `"${escapedValue}"`;
-    });
-    csvLines.push(row.join(','));
+// Newline-delimited JSON: one contact object per line
+export function convertToNDJSON(contacts: Contact[], profile: OutputProfile = 'generic', layout?: ColumnLayout): string {
+  return orderContacts(contacts, profile, layout).map(contact => `${JSON.stringify(contact)}\n`).join('');
+}
+
+export function convertGroupsToCSV(groups: ContactGroup[], dialect: CSVDialect = DEFAULT_CSV_DIALECT): string {
+  const fields = ['Group Name', 'Group UID', 'Member Count', 'Member UIDs', 'Member Names'];
+  const csvLines = [toCSVHeader(fields, dialect)];
+
+  for (const group of groups) {
+    const row = [
+      group.name,
+      group.uid,
+      String(group.members.length),
+      group.members.join('; '),
+      group.memberNames.filter(Boolean).join('; ')
+    ];
+    csvLines.push(formatCSVRow(row, dialect));
   }
 
-  return csvLines.join('\n');
+  return csvLines.join(dialect.lineEnding);
 }
 
-export function downloadCSV(csvContent: string, filename: string = 'contacts.csv'): void {
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  
-  link.setAttribute('href', url);
-  link.setAttribute('download', filename);
-  link.style.visibility = 'hidden';
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+export interface StreamConversionProgress {
+  // 1 while collecting columns, 2 while writing rows
+  pass: 1 | 2;
+  bytesRead: number;
+  cards: number;
+}
+
+export interface StreamConversionResult {
+  csv: Blob;
+  contactCount: number;
+  groups: ContactGroup[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// Size of the text collected before it is handed to a Blob
+const CSV_FLUSH_SIZE = 1024 * 1024;
+
+// Converts a file too large to hold in memory, together with its contacts, as one
+// string. The file is read twice: the first pass collects the columns, names and
+// groups, the second writes one row per card into Blob parts, which browsers may keep
+// on disk. Inline media is dropped rather than extracted.
+export async function convertVCFFile(
+  file: Blob,
+  encoding: string,
+  options: ConversionOptions = {},
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT,
+  onProgress?: (progress: StreamConversionProgress) => void
+): Promise<StreamConversionResult> {
+  const context = createProjectionContext(true);
+  const fieldContext = createProjectionContext(true);
+  const fields = new Set<string>();
+  const groupCards: { card: VCard; position: number }[] = [];
+  let position = 0;
+
+  const firstPass = createVCardParser(card => {
+    registerName(card, ++position, context);
+    if (getKind(card) === 'group') {
+      groupCards.push({ card, position });
+    } else {
+      Object.keys(projectCard(card, options, fieldContext)).forEach(field => fields.add(field));
+    }
+  });
+  await streamText(file, encoding, (text, bytesRead) => {
+    firstPass.push(text);
+    onProgress?.({ pass: 1, bytesRead, cards: position });
+  });
+  const diagnostics = firstPass.end();
+
+  const groups = groupCards.map(({ card, position }) => createGroup(card, position, context));
+  if ((options.profile || 'generic') === 'generic' && Object.keys(context.groupsByUid).length > 0) fields.add('Groups');
+  const sortedFields = orderColumns(fields, options.profile);
+
+  const parts: BlobPart[] = [encodeCSV(toCSVHeader(sortedFields, dialect), dialect)];
+  let buffer: string[] = [];
+  let bufferSize = 0;
+  let contactCount = 0;
+
+  const secondPass = createVCardParser(card => {
+    if (getKind(card) === 'group') return;
+    const line = dialect.lineEnding + toCSVLine(projectCard(card, options, context), sortedFields, dialect);
+    buffer.push(line);
+    bufferSize += line.length;
+    contactCount++;
+
+    if (bufferSize >= CSV_FLUSH_SIZE) {
+      parts.push(encodeCSVText(buffer.join(''), dialect.encoding));
+      buffer = [];
+      bufferSize = 0;
+    }
+  });
+  await streamText(file, encoding, (text, bytesRead) => {
+    secondPass.push(text);
+    onProgress?.({ pass: 2, bytesRead, cards: contactCount });
+  });
+  secondPass.end();
+  parts.push(encodeCSVText(buffer.join(''), dialect.encoding));
+
+  return {
+    csv: new Blob(parts, { type: getCSVMimeType(dialect) }),
+    contactCount,
+    groups,
+    diagnostics
+  };
+}
+
+// Media files still referenced by a cell, e.g. after contacts were deleted in the preview
+export function getReferencedMedia(contacts: Contact[], media: MediaFile[]): MediaFile[] {
+  const paths = new Set(contacts.flatMap(contact => Object.values(contact)));
+  return media.filter(file => paths.has(file.path));
+}
+
+// Bundles the CSV with the extracted media files so the paths in its cells resolve
+export function createExportBundle(
+  csvContent: string,
+  media: MediaFile[],
+  csvFilename: string = 'contacts.csv',
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): Blob {
+  return createMediaBundle({ path: csvFilename, data: encodeCSV(csvContent, dialect) }, media);
+}
+
+// The same bundle for any other export file, e.g. a workbook
+export function createMediaBundle(file: MediaFile, media: MediaFile[]): Blob {
+  return createZip([file, ...media.map(mediaFile => ({ path: mediaFile.path, data: mediaFile.data }))]);
+}
+
+export function downloadCSV(
+  csvContent: string,
+  filename: string = 'contacts.csv',
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): void {
+  downloadBlob(new Blob([encodeCSV(csvContent, dialect)], { type: getCSVMimeType(dialect) }), filename);
 }
 
-export async function shareCSV(csvContent: string, filename: string = 'contacts.csv'): Promise<void> {
+export async function shareCSV(
+  csvContent: string,
+  filename: string = 'contacts.csv',
+  dialect: CSVDialect = DEFAULT_CSV_DIALECT
+): Promise<void> {
   if (navigator.share) {
-    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const blob = new Blob([encodeCSV(csvContent, dialect)], { type: 'text/csv' });
     const file = new File([blob], filename, { type: 'text/csv' });
     
     try {
@@ -197,10 +671,10 @@ export async function shareCSV(csvContent: string, filename: string = 'contacts.
       });
     } catch (error) {
       // Fallback to download if sharing fails
-      downloadCSV(csvContent, filename);
+      downloadCSV(csvContent, filename, dialect);
     }
   } else {
     // Fallback to download if Web Share API is not supported
-    downloadCSV(csvContent, filename);
+    downloadCSV(csvContent, filename, dialect);
   }
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+// xCard (RFC 6351), the XML form of vCard 4.0: <vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">
+// with one <vcard> per card. Written and read with the browser's DOMParser and
+// XMLSerializer, which only exist on the page and not in the conversion worker.
+import {
+  LIST_PROPERTIES,
+  PropertyParameters,
+  VCard,
+  VCardProperty,
+  VCardValue,
+  VCardValueType,
+  describeCard,
+  getVCard4Parameters,
+  toDataURI
+} from './vcard-model';
+import { ParseDiagnostic, VCardParseResult } from './vcard-parser';
+import { downloadBlob } from './download';
+
+export const XCARD_NAMESPACE = 'urn:ietf:params:xml:ns:vcard-4.0';
+
+// Structured values are written as one element per component
+const COMPONENT_NAMES: { [name: string]: string[] } = {
+  'N': ['surname', 'given', 'additional', 'prefix', 'suffix'],
+  'ADR': ['pobox', 'ext', 'street', 'locality', 'region', 'code', 'country'],
+  'GENDER': ['sex', 'identity']
+};
+
+// Value types of parameters other than text
+const PARAMETER_TYPES: { [name: string]: string } = {
+  'PREF': 'integer',
+  'LANGUAGE': 'language-tag',
+  'GEO': 'uri'
+};
+
+// Value elements and the model's type for them
+const VALUE_TYPES: { [element: string]: VCardValueType } = {
+  'text': 'text',
+  'uri': 'uri',
+  'date': 'date-and-or-time',
+  'time': 'date-and-or-time',
+  'date-time': 'date-and-or-time',
+  'date-and-or-time': 'date-and-or-time',
+  'timestamp': 'timestamp',
+  'language-tag': 'language-tag'
+};
+
+// Element names are the lowercased property names, so odd extension names are left out
+const ELEMENT_NAME = /^[a-z][a-z0-9-]*$/;
+
+// Dates, times and date-times each have their own element: 19850412, T102200, 19850412T102200
+function getDateElementName(value: string): string {
+  if (value.startsWith('T')) return 'time';
+  return value.includes('T') ? 'date-time' : 'date';
+}
+
+// RFC 6351 only allows the basic format: 19850412, --0412 and T102200 rather than
+// 1985-04-12, --04-12 and T10:22:00 (the counterpart of toExtendedDateTime in jcard.ts)
+function toBasicDateTime(value: string): string {
+  const [date, time] = value.split('T');
+  const basicDate = date
+    .replace(/^(\d{4})-(\d{2})-(\d{2})$/, '$1$2$3')
+    .replace(/^--(\d{2})-(\d{2})$/, '--$1$2');
+  if (time === undefined) return basicDate;
+  return `${basicDate}T${time.replace(/:/g, '')}`;
+}
+
+function appendIndented(parent: Element, child: Element, depth: number): void {
+  const document = parent.ownerDocument;
+  parent.appendChild(document.createTextNode(`\n${'  '.repeat(depth)}`));
+  parent.appendChild(child);
+}
+
+function closeIndented(parent: Element, depth: number): void {
+  parent.appendChild(parent.ownerDocument.createTextNode(`\n${'  '.repeat(depth)}`));
+}
+
+function createValue(document: XMLDocument, type: string, value: string): Element {
+  const element = document.createElementNS(XCARD_NAMESPACE, type);
+  element.textContent = value;
+  return element;
+}
+
+function createParameters(document: XMLDocument, params: PropertyParameters): Element | null {
+  const entries = Object.entries(params);
+  if (entries.length === 0) return null;
+
+  const parameters = document.createElementNS(XCARD_NAMESPACE, 'parameters');
+  for (const [name, values] of entries) {
+    const elementName = name.toLowerCase();
+    if (!ELEMENT_NAME.test(elementName)) continue;
+
+    const parameter = document.createElementNS(XCARD_NAMESPACE, elementName);
+    values.forEach(value => parameter.appendChild(createValue(document, PARAMETER_TYPES[name] || 'text', value)));
+    parameters.appendChild(parameter);
+  }
+  return parameters;
+}
+
+function appendValues(document: XMLDocument, element: Element, property: VCardProperty): void {
+  const { name, type, value } = property;
+
+  if (type === 'binary') {
+    element.appendChild(createValue(document, 'uri', toDataURI(property)));
+  } else if (typeof value === 'string' && (type === 'date-and-or-time' || type === 'timestamp')) {
+    const basicValue = toBasicDateTime(value.trim());
+    const valueType = type === 'date-and-or-time' ? getDateElementName(basicValue) : type;
+    element.appendChild(createValue(document, valueType, basicValue));
+  } else if (typeof value === 'string') {
+    element.appendChild(createValue(document, type, value));
+  } else if (COMPONENT_NAMES[name]) {
+    COMPONENT_NAMES[name].forEach((componentName, index) => {
+      const component = value[index];
+      const values = Array.isArray(component) ? component : [component || ''];
+      // Empty components are written as an empty element
+      (values.length > 0 ? values : ['']).forEach(componentValue => {
+        element.appendChild(createValue(document, componentName, componentValue));
+      });
+    });
+  } else if (LIST_PROPERTIES.includes(name)) {
+    (value as string[]).forEach(item => element.appendChild(createValue(document, 'text', item)));
+  } else {
+    // ORG and structured extensions: one <text> per component
+    value.forEach(component => {
+      element.appendChild(createValue(document, 'text', Array.isArray(component) ? component.join(',') : component));
+    });
+  }
+}
+
+function createProperty(document: XMLDocument, property: VCardProperty): Element {
+  const element = document.createElementNS(XCARD_NAMESPACE, property.name.toLowerCase());
+  const parameters = createParameters(document, getVCard4Parameters(property));
+  if (parameters) element.appendChild(parameters);
+  appendValues(document, element, property);
+  return element;
+}
+
+// Grouped properties are wrapped in a <group name="..."> element, placed where the
+// group's first property was
+function createCard(document: XMLDocument, card: VCard): Element {
+  const vcard = document.createElementNS(XCARD_NAMESPACE, 'vcard');
+  const groups: { [name: string]: Element } = {};
+
+  for (const property of card.properties) {
+    if (!ELEMENT_NAME.test(property.name.toLowerCase())) continue;
+    const element = createProperty(document, property);
+
+    if (!property.group) {
+      appendIndented(vcard, element, 2);
+      continue;
+    }
+    if (!groups[property.group]) {
+      groups[property.group] = document.createElementNS(XCARD_NAMESPACE, 'group');
+      groups[property.group].setAttribute('name', property.group);
+      appendIndented(vcard, groups[property.group], 2);
+    }
+    appendIndented(groups[property.group], element, 3);
+  }
+
+  Object.values(groups).forEach(group => closeIndented(group, 2));
+  closeIndented(vcard, 1);
+  return vcard;
+}
+
+export function writeXCards(cards: VCard[]): string {
+  const document = window.document.implementation.createDocument(XCARD_NAMESPACE, 'vcards', null);
+  cards.forEach(card => appendIndented(document.documentElement, createCard(document, card), 1));
+  closeIndented(document.documentElement, 0);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(document)}\n`;
+}
+
+export function downloadXCard(xcardContent: string, filename: string): void {
+  downloadBlob(new Blob([xcardContent], { type: 'application/vcard+xml;charset=utf-8;' }), filename);
+}
+
+function getChildElements(element: Element, localName?: string): Element[] {
+  return Array.from(element.children)
+    .filter(child => child.namespaceURI === XCARD_NAMESPACE && (!localName || child.localName === localName));
+}
+
+function readParameters(element: Element): PropertyParameters {
+  const params: PropertyParameters = {};
+  for (const parameters of getChildElements(element, 'parameters')) {
+    for (const parameter of getChildElements(parameters)) {
+      const name = parameter.localName.toUpperCase();
+      const values = getChildElements(parameter).map(value => value.textContent || '');
+      params[name] = [...(params[name] || []), ...(name === 'TYPE' ? values.map(value => value.toLowerCase()) : values)];
+    }
+  }
+  return params;
+}
+
+function readValue(name: string, values: Element[]): { type: VCardValueType; value: VCardValue } {
+  if (COMPONENT_NAMES[name]) {
+    return {
+      type: 'text',
+      value: COMPONENT_NAMES[name].map(componentName => {
+        const components = values.filter(value => value.localName === componentName).map(value => value.textContent || '');
+        return components.length > 0 ? components : [''];
+      })
+    };
+  }
+
+  const texts = values.map(value => value.textContent || '');
+  if (LIST_PROPERTIES.includes(name)) return { type: 'text', value: texts.filter(Boolean) };
+  if (name === 'ORG') return { type: 'text', value: texts.map(text => [text]) };
+  return { type: VALUE_TYPES[values[0].localName] || 'text', value: texts.join(',') };
+}
+
+// Reads an xCard document into the vCard model. XML has no lines the model can point
+// to, so cards and their diagnostics are numbered by the card's position instead.
+export function parseXCards(xcardContent: string): VCardParseResult {
+  const document = new DOMParser().parseFromString(xcardContent.replace(/^\uFEFF/, ''), 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const root = document.documentElement;
+  const vcards = root.namespaceURI === XCARD_NAMESPACE && root.localName === 'vcard'
+    ? [root]
+    : Array.from(document.getElementsByTagNameNS(XCARD_NAMESPACE, 'vcard'));
+  if (vcards.length === 0) {
+    throw new Error(`The file is not an xCard: expected <vcards xmlns="${XCARD_NAMESPACE}">`);
+  }
+
+  const diagnostics: ParseDiagnostic[] = [];
+  const cards = vcards.map((vcard, index) => {
+    const position = index + 1;
+    const card: VCard = { version: '4.0', properties: [], line: position };
+    const cardDiagnostics: ParseDiagnostic[] = [];
+
+    const readProperty = (element: Element, group?: string) => {
+      const name = element.localName.toUpperCase();
+      const values = getChildElements(element).filter(child => child.localName !== 'parameters');
+      if (values.length === 0) {
+        cardDiagnostics.push({
+          severity: 'warning',
+          code: 'malformed-line',
+          line: position,
+          message: `<${element.localName}> has no value and was skipped`
+        });
+        return;
+      }
+
+      card.properties.push({ group, name, params: readParameters(element), ...readValue(name, values), line: position });
+    };
+
+    for (const element of getChildElements(vcard)) {
+      if (element.localName === 'group') {
+        const group = (element.getAttribute('name') || '').toLowerCase() || undefined;
+        getChildElements(element).forEach(child => readProperty(child, group));
+      } else {
+        readProperty(element);
+      }
+    }
+
+    const contact = describeCard(card, position);
+    diagnostics.push(...cardDiagnostics.map(diagnostic => ({ ...diagnostic, contact })));
+    return card;
+  });
+
+  return { cards, diagnostics };
+}
@@ -0,0 +1,155 @@
+// Excel workbook (Office Open XML, .xlsx) export. Cells are written as inline strings,
+// phone and postal code columns are formatted as text, ISO dates become date cells and
+// the header row is frozen.
+import { Contact, ContactGroup, OutputProfile } from './vcf-converter';
+import { ColumnLayout } from './column-mapping';
+import { ColumnKind, Sheet, createContactsSheet, createGroupsSheet, escapeXML, getSpreadsheetDate } from './spreadsheet';
+import { removeAppleOmittedYear } from './vcard-model';
+import { createZip } from './zip';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel refuses cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+// Cell formats in styles.xml: header, text ("@") and date
+const STYLE_HEADER = 1;
+const STYLE_TEXT = 2;
+const STYLE_DATE = 3;
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const DOCUMENT_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Column letters: A, B, ..., Z, AA, AB, ...
+function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Days since Excel's epoch, 1899-12-30
+function toSerialDate(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / 86400000 + 25569;
+}
+
+function formatTextCell(reference: string, value: string, style: string): string {
+  const text = escapeXML(value.slice(0, MAX_CELL_LENGTH));
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function formatCell(reference: string, value: string, kind: ColumnKind): string {
+  if (kind === 'date') {
+    const date = getSpreadsheetDate(value);
+    if (date) return `<c r="${reference}" s="${STYLE_DATE}"><v>${toSerialDate(date.year, date.month, date.day)}</v></c>`;
+    // Dates without a year, impossible dates and dates before 1900-03-01 are written as text
+    return formatTextCell(reference, removeAppleOmittedYear(value), ` s="${STYLE_TEXT}"`);
+  }
+  if (kind === 'number' && /^\d+$/.test(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+
+  return formatTextCell(reference, value, kind === 'text' ? ` s="${STYLE_TEXT}"` : '');
+}
+
+function createWorksheet(sheet: Sheet): string {
+  const columns = sheet.columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"${
+      column.kind === 'text' ? ` style="${STYLE_TEXT}"` : ''
+    }/>`)
+    .join('');
+
+  const header = sheet.columns
+    .map((column, index) => {
+      const text = escapeXML(column.header);
+      return `<c r="${getColumnName(index)}1" s="${STYLE_HEADER}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+    })
+    .join('');
+
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, index) => (value ? formatCell(`${getColumnName(index)}${rowIndex + 2}`, value, sheet.columns[index].kind) : ''))
+      .join('');
+    return `<row r="${rowIndex + 2}">${cells}</row>`;
+  });
+
+  return XML_DECLARATION +
+    `<worksheet xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    (columns ? `<cols>${columns}</cols>` : '') +
+    `<sheetData><row r="1">${header}</row>${rows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+const STYLES = XML_DECLARATION +
+  `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+function createPackage(sheets: Sheet[]): Blob {
+  const sheetNumbers = sheets.map((_, index) => index + 1);
+
+  const contentTypes = XML_DECLARATION +
+    `<Types xmlns="${CONTENT_TYPES_NS}">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetNumbers.map(n => `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+    '</Types>';
+
+  const rootRelationships = XML_DECLARATION +
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook = XML_DECLARATION +
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS_NS}"><sheets>` +
+    sheets.map((sheet, index) => `<sheet name="${escapeXML(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  // Worksheets are rId1..rIdN, the styles come after them
+  const workbookRelationships = XML_DECLARATION +
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+    sheetNumbers.map(n => `<Relationship Id="rId${n}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${n}.xml"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const zip = createZip([
+    { path: '[Content_Types].xml', data: contentTypes },
+    { path: '_rels/.rels', data: rootRelationships },
+    { path: 'xl/workbook.xml', data: workbook },
+    { path: 'xl/_rels/workbook.xml.rels', data: workbookRelationships },
+    { path: 'xl/styles.xml', data: STYLES },
+    ...sheets.map((sheet, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, data: createWorksheet(sheet) }))
+  ]);
+  return new Blob([zip], { type: XLSX_MIME_TYPE });
+}
+
+// Builds the .xlsx file with a Contacts worksheet holding the CSV's columns, and a
+// Groups worksheet when groups are passed
+export function convertToXLSX(
+  contacts: Contact[],
+  profile: OutputProfile = 'generic',
+  layout?: ColumnLayout,
+  groups?: ContactGroup[]
+): Blob {
+  const sheets = [createContactsSheet(contacts, profile, layout)];
+  if (groups) sheets.push(createGroupsSheet(contacts, groups));
+  return createPackage(sheets);
+}
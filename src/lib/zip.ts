@@ -0,0 +1,97 @@
+// Minimal ZIP writer. Entries are stored without compression, which every unzip tool,
+// spreadsheet application and OS file manager can read, and which keeps the writer
+// small enough to run in the browser without a dependency.
+
+export interface ZipEntry {
+  // Path inside the archive, using "/" as separator
+  path: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // local file header signature
+    localView.setUint16(4, 20, true); // version needed to extract
+    localView.setUint16(6, 0x0800, true); // flags: file name is UTF-8
+    localView.setUint16(8, 0, true); // compression: stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true); // compressed size
+    localView.setUint32(22, data.length, true); // uncompressed size
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true); // extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // central directory header signature
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed to extract
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // offset of the local header
+    central.set(name, 46);
+
+    parts.push(local, data);
+    centralDirectory.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((size, header) => size + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // end of central directory signature
+  endView.setUint16(8, entries.length, true); // entries on this disk
+  endView.setUint16(10, entries.length, true); // total entries
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true); // offset of the central directory
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}